@@ -0,0 +1,276 @@
+/**
+ * Files a build depends on, for the incremental up-to-date check in buildManager:
+ * - CMake inputs: every CMakeLists.txt and *.cmake under the project root, plus CMakePresets.json
+ *   and CMakeUserPresets.json.
+ * - Target inputs: the target's sources plus the headers they include, taken from compiler depfiles
+ *   (Makefile generators keep them next to the objects) or, if there are none (e.g. Ninja keeps
+ *   dependencies in its own database), from following #include lines with the include paths
+ *   from compile_commands.json.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Directories never searched for CMake files (VCS, editor and package folders). */
+const SKIPPED_DIRS = new Set(['node_modules', '.git', '.svn', '.hg', '.vscode', '.vs']);
+/** Upper bound for headers followed through #include, so a huge include tree cannot stall a run. */
+const MAX_INCLUDED_FILES = 5000;
+
+const INCLUDE_LINE = /^\s*#\s*include\s*([<"])([^>"]+)[>"]/gm;
+
+/**
+ * All CMake input files of a project: CMakeLists.txt and *.cmake in every directory under root
+ * (build trees, recognized by their CMakeCache.txt, are skipped) and the preset files at root.
+ */
+export function findCmakeInputs(root: string): string[] {
+  const out: string[] = [];
+  for (const name of ['CMakePresets.json', 'CMakeUserPresets.json']) {
+    const p = path.join(root, name);
+    if (fs.existsSync(p)) {
+      out.push(p);
+    }
+  }
+  const visit = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    if (dir !== root && entries.some((e) => e.isFile() && e.name === 'CMakeCache.txt')) {
+      return;
+    }
+    for (const e of entries) {
+      const full = path.join(dir, e.name);
+      if (e.isDirectory()) {
+        if (!SKIPPED_DIRS.has(e.name)) {
+          visit(full);
+        }
+      } else if (e.name === 'CMakeLists.txt' || e.name.endsWith('.cmake')) {
+        out.push(full);
+      }
+    }
+  };
+  visit(root);
+  return out;
+}
+
+/**
+ * Parse a Make-style depfile ("obj.o: src.cpp dir/a.h \" ...) into its prerequisites.
+ * Handles line continuations, escaped spaces and several rules per file; relative paths are
+ * resolved against baseDir.
+ */
+export function parseDepfile(text: string, baseDir: string): string[] {
+  const out: string[] = [];
+  const joined = text.replace(/\\\r?\n/g, ' ');
+  for (const line of joined.split(/\r?\n/)) {
+    if (line.trimStart().startsWith('#')) {
+      continue;
+    }
+    // The rule separator is a colon followed by whitespace (or the end), not a drive letter colon
+    const sep = line.search(/:(\s|$)/);
+    if (sep < 0) {
+      continue;
+    }
+    const deps = line.slice(sep + 1).match(/(?:\\ |[^\s])+/g) ?? [];
+    for (const raw of deps) {
+      const dep = raw.replace(/\\ /g, ' ');
+      out.push(path.isAbsolute(dep) ? dep : path.resolve(baseDir, dep));
+    }
+  }
+  return out;
+}
+
+/** Depfiles (*.d, compiler_depend.make, depend.make) under a target's CMakeFiles/<target>.dir. */
+async function findDepfiles(targetDir: string): Promise<string[]> {
+  const out: string[] = [];
+  const visit = async (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const e of entries) {
+      const full = path.join(dir, e.name);
+      if (e.isDirectory()) {
+        await visit(full);
+      } else if (e.name.endsWith('.d') || e.name === 'compiler_depend.make' || e.name === 'depend.make') {
+        out.push(full);
+      }
+    }
+  };
+  await visit(targetDir);
+  return out;
+}
+
+/** mtime (ms) of a file; 0 if it does not exist. */
+async function mtimeOf(filePath: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(filePath)).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/** True if the file or directory exists. */
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A target's object directory (undefined if it was not built yet): <binary dir of the target>/CMakeFiles/<target>.dir, the binary dir
+ * taken from the artifact location, falling back to the top build directory.
+ */
+export async function findTargetObjectDir(
+  buildDir: string,
+  target: string,
+  artifact: string | undefined
+): Promise<string | undefined> {
+  const candidates = [artifact ? path.dirname(artifact) : undefined, buildDir]
+    .filter((d): d is string => !!d)
+    .map((d) => path.join(d, 'CMakeFiles', `${target}.dir`));
+  for (const d of candidates) {
+    if (await exists(d)) {
+      return d;
+    }
+  }
+  return undefined;
+}
+
+/** Dependencies recorded in the given depfiles. */
+async function dependenciesFromDepfiles(buildDir: string, depfiles: string[]): Promise<string[]> {
+  const out: string[] = [];
+  for (const f of depfiles) {
+    try {
+      out.push(...parseDepfile(await fs.promises.readFile(f, 'utf-8'), buildDir));
+    } catch {
+      // Removed by a concurrent clean; the next check reads the new ones
+    }
+  }
+  return out;
+}
+
+/** Entry of compile_commands.json. */
+interface CompileCommand {
+  directory: string;
+  file: string;
+  command?: string;
+  arguments?: string[];
+}
+
+/** Include directories (-I, -isystem, -iquote) from one compile command. */
+function includeDirsOf(entry: CompileCommand): string[] {
+  const args =
+    entry.arguments ??
+    ((entry.command ?? '').match(/"[^"]*"|\S+/g) ?? []).map((a) => a.replace(/^"|"$/g, ''));
+  const dirs: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    const flag = ['-isystem', '-iquote', '-I'].find((f) => a.startsWith(f));
+    if (!flag) {
+      continue;
+    }
+    const dir = a.length > flag.length ? a.slice(flag.length) : args[++i];
+    if (dir) {
+      dirs.push(path.resolve(entry.directory, dir));
+    }
+  }
+  return dirs;
+}
+
+/**
+ * Headers reached from the given sources through #include, resolved against the including file's
+ * directory (quoted includes) and the include paths from compile_commands.json.
+ * Includes that cannot be resolved (system headers) are skipped.
+ */
+async function dependenciesFromCompileCommands(buildDir: string, sources: string[]): Promise<string[]> {
+  let commands: CompileCommand[];
+  try {
+    commands = JSON.parse(await fs.promises.readFile(path.join(buildDir, 'compile_commands.json'), 'utf-8'));
+  } catch {
+    return [];
+  }
+  const byFile = new Map<string, CompileCommand>();
+  for (const c of commands) {
+    byFile.set(path.resolve(c.directory, c.file), c);
+  }
+  const seen = new Set<string>();
+  const visit = async (file: string, includeDirs: string[]) => {
+    if (seen.has(file) || seen.size >= MAX_INCLUDED_FILES) {
+      return;
+    }
+    seen.add(file);
+    let text: string;
+    try {
+      text = await fs.promises.readFile(file, 'utf-8');
+    } catch {
+      return;
+    }
+    for (const m of text.matchAll(INCLUDE_LINE)) {
+      const dirs = m[1] === '"' ? [path.dirname(file), ...includeDirs] : includeDirs;
+      for (const d of dirs) {
+        const candidate = path.resolve(d, m[2]);
+        if (await exists(candidate)) {
+          await visit(candidate, includeDirs);
+          break;
+        }
+      }
+    }
+  };
+  for (const source of sources) {
+    const entry = byFile.get(path.resolve(source));
+    await visit(path.resolve(source), entry ? includeDirsOf(entry) : []);
+  }
+  return Array.from(seen);
+}
+
+/** Dependencies of a target as last collected, and the state of the files they were collected from. */
+interface CachedDependencies {
+  /** mtimes of the depfiles, compile_commands.json and the target's sources at collection time. */
+  stamp: string;
+  deps: string[];
+}
+
+/** Per build directory and target; collecting follows up to MAX_INCLUDED_FILES headers. */
+const dependencyCache = new Map<string, CachedDependencies>();
+
+/**
+ * Sources and headers a target is built from: depfiles if the build wrote any,
+ * otherwise the include tree from compile_commands.json, otherwise just its sources.
+ * Kept until a depfile, compile_commands.json or one of the sources changes; an #include added to a
+ * header alone is picked up with the next build that rewrites them.
+ */
+export async function getTargetDependencies(
+  buildDir: string | undefined,
+  target: string,
+  artifact: string | undefined,
+  sources: string[]
+): Promise<string[]> {
+  if (!buildDir) {
+    return sources;
+  }
+  const targetDir = await findTargetObjectDir(buildDir, target, artifact);
+  const depfiles = targetDir ? await findDepfiles(targetDir) : [];
+  const stampFiles = [...depfiles, path.join(buildDir, 'compile_commands.json'), ...sources];
+  const stamp = (await Promise.all(stampFiles.map(async (f) => `${f}@${await mtimeOf(f)}`))).join('|');
+  const key = `${buildDir}|${target}`;
+  const cached = dependencyCache.get(key);
+  if (cached?.stamp === stamp) {
+    return cached.deps;
+  }
+  const fromDepfiles = await dependenciesFromDepfiles(buildDir, depfiles);
+  const deps = Array.from(
+    new Set([
+      ...sources,
+      ...(fromDepfiles.length > 0 ? fromDepfiles : await dependenciesFromCompileCommands(buildDir, sources))
+    ])
+  );
+  dependencyCache.set(key, { stamp, deps });
+  return deps;
+}
@@ -0,0 +1,105 @@
+/**
+ * Compiler errors and warnings from the build output (GCC / Clang format) in the Problems panel.
+ * Kept per executable and replaced on its next build, so they disappear once it builds, while the
+ * errors of other executables that still fail to build stay.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/** One compiler message: "file:line[:column]: error|warning|note: text". */
+export interface CompilerMessage {
+  file: string;
+  /** 1-based. */
+  line: number;
+  /** 1-based; undefined if the compiler printed no column. */
+  column?: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const COMPILER_LINE = /^(.+?):(\d+):(?:(\d+):)?\s+(fatal error|error|warning):\s+(.*)$/;
+
+let collection: vscode.DiagnosticCollection | undefined;
+/** Messages of the last build of each executable (folder URI | target). */
+const messagesByExecutable = new Map<string, CompilerMessage[]>();
+
+function getCollection(): vscode.DiagnosticCollection {
+  if (!collection) {
+    collection = vscode.languages.createDiagnosticCollection('gtest-build');
+  }
+  return collection;
+}
+
+/**
+ * Parse GCC / Clang messages from build output. Relative paths (e.g. Ninja prints them relative
+ * to the build directory) are resolved against baseDir; notes and "In file included from" lines are skipped.
+ */
+export function parseCompilerOutput(output: string, baseDir: string): CompilerMessage[] {
+  const out: CompilerMessage[] = [];
+  for (const raw of output.split(/\r?\n/)) {
+    const m = raw.match(COMPILER_LINE);
+    if (!m) {
+      continue;
+    }
+    out.push({
+      file: path.isAbsolute(m[1]) ? m[1] : path.resolve(baseDir, m[1]),
+      line: Number(m[2]),
+      column: m[3] !== undefined ? Number(m[3]) : undefined,
+      severity: m[4] === 'warning' ? 'warning' : 'error',
+      message: m[5]
+    });
+  }
+  return out;
+}
+
+/**
+ * Show compiler messages of a build of these executables in the Problems panel. Replaces the
+ * messages of their previous builds; a build of several executables cannot tell which message
+ * belongs to which, so each of them keeps all of the build's messages.
+ */
+export function setBuildDiagnostics(
+  workspaceFolder: vscode.WorkspaceFolder,
+  executableNames: string[],
+  messages: CompilerMessage[]
+): void {
+  for (const name of executableNames) {
+    const key = `${workspaceFolder.uri.toString()}|${name}`;
+    if (messages.length > 0) {
+      messagesByExecutable.set(key, messages);
+    } else {
+      messagesByExecutable.delete(key);
+    }
+  }
+  publish();
+}
+
+/** Push the messages of all executables to the collection, grouped by file. */
+function publish(): void {
+  const byFile = new Map<string, vscode.Diagnostic[]>();
+  const seen = new Set<string>();
+  for (const msg of Array.from(messagesByExecutable.values()).flat()) {
+    // The same header error is reported once per translation unit that includes it
+    const key = `${msg.file}:${msg.line}:${msg.column}:${msg.message}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    const line = Math.max(msg.line - 1, 0);
+    const column = Math.max((msg.column ?? 1) - 1, 0);
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(line, column, line, column),
+      msg.message,
+      msg.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = 'Build';
+    const list = byFile.get(msg.file) ?? [];
+    list.push(diagnostic);
+    byFile.set(msg.file, list);
+  }
+  const diagnostics = getCollection();
+  diagnostics.clear();
+  for (const [file, list] of byFile) {
+    diagnostics.set(vscode.Uri.file(file), list);
+  }
+}
@@ -1,13 +1,17 @@
 /**
- * Incremental build: run CMake if CMakeLists.txt changed, build if any .cpp/.hpp changed.
+ * Incremental build: run CMake if any CMake input changed, build if any source or included header changed.
  * Tracks last run state in workspace storage to avoid full rebuild like TestMate.
+ * With gtest-plugin.upToDateCheck = "buildTool" every run just builds and lets CMake / the build tool decide.
  */
 
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import * as path from 'path';
-import { getProject } from './cmakeIntegration';
-import { getCmakeSourceDirectory } from './config';
+import { getProject, getActiveConfiguration, getConfigurationName, isMultiConfig, Project } from './cmakeIntegration';
+import { getCmakeSourceDirectory, getBuildJobs, getUpToDateCheck, getBuildConfiguration } from './config';
+import { findCmakeInputs, getTargetDependencies } from './buildDependencies';
+import { runCmakeBuild, getBuildChannel } from './cmakeBuild';
+import { parseCompilerOutput, setBuildDiagnostics } from './buildDiagnostics';
+import { logError } from './log';
 
 const STORAGE_KEY_CMAKE_MTIME = 'gtest-plugin.lastCmakeMtime';
 const STORAGE_KEY_SOURCE_MTIMES = 'gtest-plugin.lastSourceMtimes';
@@ -26,18 +30,36 @@ function getMtime(filePath: string): number {
   }
 }
 
-/** Find CMakeLists.txt in the CMake project root (custom dir or workspace). */
+/** CMake inputs per project root; searched once, dropped when a CMake file is created or deleted. */
+const cmakeInputsCache = new Map<string, string[]>();
+
+/**
+ * Watch the workspace for created and deleted CMake inputs, which make the cached lists stale.
+ * Edits need no watching: mtimes are read on every check.
+ */
+export function watchCmakeInputs(): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    '**/{CMakeLists.txt,*.cmake,CMakePresets.json,CMakeUserPresets.json}',
+    false,
+    true,
+    false
+  );
+  const invalidate = () => cmakeInputsCache.clear();
+  return vscode.Disposable.from(watcher, watcher.onDidCreate(invalidate), watcher.onDidDelete(invalidate));
+}
+
+/** Find all CMake inputs (CMakeLists.txt, *.cmake, presets) under the CMake project root (cached). */
 function findCmakeLists(workspaceFolder: vscode.WorkspaceFolder): string[] {
   const root = getEffectiveProjectRoot(workspaceFolder);
-  const out: string[] = [];
-  const main = path.join(root, 'CMakeLists.txt');
-  if (fs.existsSync(main)) {
-    out.push(main);
+  let inputs = cmakeInputsCache.get(root);
+  if (!inputs) {
+    inputs = findCmakeInputs(root);
+    cmakeInputsCache.set(root, inputs);
   }
-  return out;
+  return inputs;
 }
 
-/** Check if CMakeLists.txt has changed since last run. */
+/** Check if any CMake input has changed since last run. */
 function cmakeListsChanged(
   context: vscode.ExtensionContext,
   workspaceFolder: vscode.WorkspaceFolder
@@ -52,7 +74,7 @@ function cmakeListsChanged(
   return current > last;
 }
 
-/** Save current CMakeLists mtimes so next time we know they haven't changed. */
+/** Save current CMake input mtimes so next time we know they haven't changed. */
 function saveCmakeMtimes(
   context: vscode.ExtensionContext,
   workspaceFolder: vscode.WorkspaceFolder
@@ -65,96 +87,152 @@ function saveCmakeMtimes(
   context.globalState.update(key, current);
 }
 
-/** Get all source paths (.cpp, .hpp) that belong to given executables from code model. */
-function getSourcePathsForExecutables(
-  project: { codeModel: unknown },
+/**
+ * Get all files each of the given executables is built from: its sources from the code model plus
+ * the headers found through depfiles or compile_commands.json (see buildDependencies).
+ */
+async function getSourcePathsByExecutable(
+  project: Project,
   executableNames: string[]
-): string[] {
-  const codeModel = project.codeModel as {
-    configurations?: Array<{
-      projects?: Array<{
-        targets?: Array<{
-          name: string;
-          type: string;
-          fileGroups?: Array<{ sources: string[] }>;
-        }>;
-      }>;
-    }>;
-  };
-  if (!codeModel?.configurations?.[0]?.projects) return [];
-  const set = new Set<string>();
-  for (const proj of codeModel.configurations[0].projects) {
+): Promise<Map<string, string[]>> {
+  const map = new Map<string, string[]>();
+  const config = getActiveConfiguration(project);
+  if (!config?.projects) {
+    return map;
+  }
+  const buildDir = await project.getBuildDirectory();
+  for (const proj of config.projects) {
     for (const target of proj.targets || []) {
       if (target.type !== 'EXECUTABLE' || !executableNames.includes(target.name))
         continue;
-      for (const fg of target.fileGroups || []) {
-        for (const s of fg.sources || []) {
-          const lower = s.toLowerCase();
-          if (
-            lower.endsWith('.cpp') ||
-            lower.endsWith('.hpp') ||
-            lower.endsWith('.cxx') ||
-            lower.endsWith('.hxx')
-          ) {
-            set.add(s);
-          }
-        }
-      }
+      const sources = (target.fileGroups || []).flatMap((fg) => fg.sources || []);
+      map.set(target.name, await getTargetDependencies(buildDir, target.name, target.artifacts?.[0], sources));
     }
   }
-  return Array.from(set);
+  return map;
+}
+
+/**
+ * Storage key for the source mtimes of one executable. Executables share headers, so each one keeps
+ * the mtimes of its own last build; multi-config generators build each configuration into its own
+ * directory, so every configuration is tracked separately too.
+ */
+function sourceMtimesKey(workspaceFolder: vscode.WorkspaceFolder, project: Project, executable: string): string {
+  const root = getEffectiveProjectRoot(workspaceFolder);
+  const config = isMultiConfig(project) ? getConfigurationName(project) : undefined;
+  return config
+    ? `${STORAGE_KEY_SOURCE_MTIMES}_${root}_${config}_${executable}`
+    : `${STORAGE_KEY_SOURCE_MTIMES}_${root}_${executable}`;
 }
 
-/** Check if any source file for given executables has changed since last run. */
+/** Check if any file of any of the given executables has changed since that executable's last build. */
 function sourcesChanged(
   context: vscode.ExtensionContext,
   workspaceFolder: vscode.WorkspaceFolder,
-  project: { codeModel: unknown },
-  executableNames: string[]
+  project: Project,
+  pathsByExecutable: Map<string, string[]>
 ): boolean {
-  const paths = getSourcePathsForExecutables(project, executableNames);
-  if (paths.length === 0) return false;
   const storage = context.globalState;
-  const root = getEffectiveProjectRoot(workspaceFolder);
-  const key = `${STORAGE_KEY_SOURCE_MTIMES}_${root}`;
-  const lastMap = (storage.get<Record<string, number>>(key, {})) as Record<
-    string,
-    number
-  >;
-  for (const p of paths) {
-    const current = getMtime(p);
-    const last = lastMap[p] ?? 0;
-    if (current > last) return true;
+  for (const [executable, paths] of pathsByExecutable) {
+    const lastMap = storage.get<Record<string, number>>(sourceMtimesKey(workspaceFolder, project, executable), {});
+    for (const p of paths) {
+      const current = getMtime(p);
+      const last = lastMap[p] ?? 0;
+      if (current > last) {
+        return true;
+      }
+    }
   }
   return false;
 }
 
-/** Save current source mtimes for given executables. */
+/** Save current mtimes of the files of each given (just built) executable. */
 function saveSourceMtimes(
   context: vscode.ExtensionContext,
   workspaceFolder: vscode.WorkspaceFolder,
-  project: { codeModel: unknown },
-  executableNames: string[]
+  project: Project,
+  pathsByExecutable: Map<string, string[]>
 ): void {
-  const paths = getSourcePathsForExecutables(project, executableNames);
-  const root = getEffectiveProjectRoot(workspaceFolder);
-  const key = `${STORAGE_KEY_SOURCE_MTIMES}_${root}`;
-  const storage = context.globalState;
-  const lastMap = (storage.get<Record<string, number>>(key, {})) as Record<
-    string,
-    number
-  >;
-  for (const p of paths) {
-    lastMap[p] = getMtime(p);
+  for (const [executable, paths] of pathsByExecutable) {
+    const map: Record<string, number> = {};
+    for (const p of paths) {
+      map[p] = getMtime(p);
+    }
+    context.globalState.update(sourceMtimesKey(workspaceFolder, project, executable), map);
   }
-  storage.update(key, lastMap);
 }
 
+/** Executables (folder URI | target) whose last build failed (shown as 'build failed' in the tree). */
+const failedBuilds = new Set<string>();
+const _onDidChangeBuildState = new vscode.EventEmitter<void>();
+/** Fires when an executable's last build starts or stops being failed. */
+export const onDidChangeBuildState = _onDidChangeBuildState.event;
+
+/** True if the last build of this executable (in this workspace folder) failed. */
+export function isBuildFailed(workspaceFolder: vscode.WorkspaceFolder, executable: string): boolean {
+  return failedBuilds.has(`${workspaceFolder.uri.toString()}|${executable}`);
+}
+
+/** Record the outcome of a build of these executables. */
+function setBuildFailed(
+  workspaceFolder: vscode.WorkspaceFolder,
+  executableNames: string[],
+  failed: boolean
+): void {
+  const before = failedBuilds.size;
+  for (const name of executableNames) {
+    const key = `${workspaceFolder.uri.toString()}|${name}`;
+    if (failed) {
+      failedBuilds.add(key);
+    } else {
+      failedBuilds.delete(key);
+    }
+  }
+  if (failedBuilds.size !== before) {
+    _onDidChangeBuildState.fire();
+  }
+}
+
+/** Build of each workspace folder (by URI) that is running or waiting; see ensureBuilt. */
+const buildQueues = new Map<string, Promise<boolean>>();
+
 /**
  * Ensure project is built: configure if CMakeLists changed, build if sources changed.
- * Reuses CMake Tools settings (kit, preset, etc.). Optionally pass -j N via build preset or we'd need to run build command ourselves; CMake Tools API build() doesn't take -j, it uses preset. So we document that user sets jobs in build preset or we skip -j from our config for now. Actually the user asked for -j option - CMake Tools build preset has "jobs" field. So we can suggest they set it in preset. Or we could run cmake --build with -j ourselves after getBuildDirectory() - but that might not use their kit. So we rely on CMake Tools build() and document that buildJobs in our config can be used if we implement custom build command. For now we only do: configure if cmake changed, build(targets) if sources changed. Jobs: we add to package.json and config; when we have a way to pass -j to CMake Tools we can use it (e.g. some API might accept options). Checking: buildWithResult(targets?) - no jobs param. So we leave buildJobs in config for future or for when we run raw cmake --build. For now we just do incremental configure + build.
+ * Builds through CMake Tools (kit, preset, etc.), or with `cmake --build ... -j N` when
+ * gtest-plugin.buildJobs > 0, since the CMake Tools API build() takes no jobs parameter.
+ * CMake Tools builds its own active build type, so with a multi-config generator and
+ * gtest-plugin.buildConfiguration set, `cmake --build --config` is used too: the executables that
+ * are run are those of the configured build type.
+ * A failed build shows an error, puts compiler errors in the Problems panel and is retried next time.
+ * Builds of the same folder share one build directory, so they run one after the other: a call
+ * waits for the previous build and then checks again (it often finds nothing left to build).
+ * @param token Cancelled while waiting for the previous build: nothing is built
+ * @returns false if there is no project, the build failed (callers must not run stale binaries) or
+ *   the token was cancelled before the build started
  */
 export async function ensureBuilt(
+  context: vscode.ExtensionContext,
+  workspaceFolder: vscode.WorkspaceFolder,
+  executableNames: string[],
+  token?: vscode.CancellationToken
+): Promise<boolean> {
+  const key = workspaceFolder.uri.toString();
+  const previous = buildQueues.get(key) ?? Promise.resolve(true);
+  const build = previous
+    .catch(() => false)
+    .then(() => (token?.isCancellationRequested ? false : buildIfChanged(context, workspaceFolder, executableNames)));
+  buildQueues.set(key, build);
+  try {
+    return await build;
+  } finally {
+    if (buildQueues.get(key) === build) {
+      buildQueues.delete(key);
+    }
+  }
+}
+
+/** Configure and build if needed (see ensureBuilt); only one call per folder runs at a time. */
+async function buildIfChanged(
   context: vscode.ExtensionContext,
   workspaceFolder: vscode.WorkspaceFolder,
   executableNames: string[]
@@ -163,20 +241,48 @@ export async function ensureBuilt(
   if (!project) {
     return false;
   }
-  const needConfigure = cmakeListsChanged(context, workspaceFolder);
+  // The generated build system reruns CMake and rebuilds exactly what changed by itself
+  const delegate = getUpToDateCheck(workspaceFolder) === 'buildTool';
+  const needConfigure = !delegate && cmakeListsChanged(context, workspaceFolder);
   if (needConfigure) {
     await project.configure();
     saveCmakeMtimes(context, workspaceFolder);
   }
-  const needBuild = sourcesChanged(
-    context,
-    workspaceFolder,
-    project,
-    executableNames
-  );
+  const needBuild =
+    delegate ||
+    sourcesChanged(context, workspaceFolder, project, await getSourcePathsByExecutable(project, executableNames));
   if (needBuild || needConfigure) {
-    await project.build(executableNames);
-    saveSourceMtimes(context, workspaceFolder, project, executableNames);
+    const ownBuild =
+      getBuildJobs(workspaceFolder) > 0 ||
+      (isMultiConfig(project) && getBuildConfiguration(workspaceFolder) !== undefined);
+    const result = ownBuild
+      ? await runCmakeBuild(workspaceFolder, project, executableNames)
+      : await project.buildWithResult(executableNames);
+    const buildDir = (await project.getBuildDirectory()) ?? workspaceFolder.uri.fsPath;
+    setBuildDiagnostics(
+      workspaceFolder,
+      executableNames,
+      parseCompilerOutput(`${result.stdout ?? ''}\n${result.stderr ?? ''}`, buildDir)
+    );
+    if (result.exitCode !== 0) {
+      // Source mtimes are not saved, so the next run tries the build again
+      setBuildFailed(workspaceFolder, executableNames, true);
+      logError(`Build of ${executableNames.join(', ')} failed with exit code ${result.exitCode}`);
+      const text = `Build of ${executableNames.join(', ')} failed (exit code ${result.exitCode}); tests were not run.`;
+      // CMake Tools builds print to its own Build output channel
+      const actions = ownBuild ? ['Show Build Output'] : [];
+      vscode.window.showErrorMessage(text, ...actions).then((choice) => {
+        if (choice === 'Show Build Output') {
+          getBuildChannel().show();
+        }
+      });
+      return false;
+    }
+    if (!delegate) {
+      // Collected again after the build, so headers newly recorded in depfiles are tracked too
+      saveSourceMtimes(context, workspaceFolder, project, await getSourcePathsByExecutable(project, executableNames));
+    }
   }
+  setBuildFailed(workspaceFolder, executableNames, false);
   return true;
 }
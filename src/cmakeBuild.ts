@@ -0,0 +1,120 @@
+/**
+ * Build backend that runs `cmake --build` directly, so gtest-plugin.buildJobs can be passed as -j
+ * (the CMake Tools API build() has no jobs parameter) and gtest-plugin.buildConfiguration as
+ * --config (it always builds CMake Tools' active build type). Uses the build preset from
+ * gtest-plugin.buildPreset if set, else the project's build directory. With multi-config
+ * generators the selected configuration is passed as --config.
+ * Build output streams to the "GTest Build" channel.
+ */
+
+import * as vscode from 'vscode';
+import { spawn } from 'child_process';
+import { CommandResult, Project, getConfigurationName, isMultiConfig } from './cmakeIntegration';
+import { getBuildJobs, getBuildPreset, getCmakeSourceDirectory } from './config';
+import { logInfo, logError } from './log';
+
+const CHANNEL_NAME = 'GTest Build';
+
+let channel: vscode.OutputChannel | undefined;
+
+/** Output channel for build output (shared by all builds). */
+export function getBuildChannel(): vscode.OutputChannel {
+  if (!channel) {
+    channel = vscode.window.createOutputChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/** cmake executable: CMake Tools' cmake.cmakePath (of this folder) if set, else cmake from PATH. */
+function getCmakePath(workspaceFolder: vscode.WorkspaceFolder): string {
+  const configured = vscode.workspace.getConfiguration('cmake', workspaceFolder.uri).get<string>('cmakePath', '');
+  return configured && configured.trim() !== '' && configured !== '${cmake}' ? configured.trim() : 'cmake';
+}
+
+/**
+ * Arguments for `cmake --build`: a build preset (binary dir and options from CMakePresets.json)
+ * or the build directory, then the configuration (multi-config generators), the targets and -j N.
+ */
+function buildArgs(
+  buildDir: string | undefined,
+  preset: string | undefined,
+  config: string | undefined,
+  targets: string[],
+  jobs: number
+): string[] | undefined {
+  const args = preset ? ['--build', '--preset', preset] : buildDir ? ['--build', buildDir] : undefined;
+  if (!args) {
+    return undefined;
+  }
+  if (config) {
+    args.push('--config', config);
+  }
+  if (targets.length > 0) {
+    args.push('--target', ...targets);
+  }
+  if (jobs > 0) {
+    args.push('-j', String(jobs));
+  }
+  return args;
+}
+
+/**
+ * Build targets with `cmake --build ... -j N`, streaming output to the GTest Build channel.
+ * Presets are resolved by cmake relative to the CMake source directory, so that is the cwd.
+ * @returns Exit code and captured output (exit code -1 if cmake could not be started)
+ */
+export async function runCmakeBuild(
+  workspaceFolder: vscode.WorkspaceFolder,
+  project: Project,
+  targets: string[],
+  token?: vscode.CancellationToken
+): Promise<CommandResult> {
+  const buildDir = await project.getBuildDirectory();
+  const config = isMultiConfig(project) ? getConfigurationName(project) : undefined;
+  const args = buildArgs(buildDir, getBuildPreset(workspaceFolder), config, targets, getBuildJobs(workspaceFolder));
+  if (!args) {
+    logError('cmake --build: no build directory (project not configured?)');
+    return { exitCode: -1, stderr: 'No build directory' };
+  }
+  const cmake = getCmakePath(workspaceFolder);
+  const cwd = getCmakeSourceDirectory(workspaceFolder) ?? workspaceFolder.uri.fsPath;
+  const ch = getBuildChannel();
+  ch.appendLine(`\n> ${cmake} ${args.join(' ')}`);
+  logInfo(`Building with ${cmake} ${args.join(' ')}`);
+  return new Promise((resolve) => {
+    const proc = spawn(cmake, args, { cwd, env: process.env });
+    let stdout = '';
+    let stderr = '';
+    const cancel = token?.onCancellationRequested(() => proc.kill());
+    proc.stdout?.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stdout += text;
+      ch.append(text);
+    });
+    proc.stderr?.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderr += text;
+      ch.append(text);
+    });
+    // 'close' may follow 'error' (e.g. cmake not found); report only the first
+    let settled = false;
+    proc.on('error', (err) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      cancel?.dispose();
+      ch.appendLine(`Failed to start ${cmake}: ${err.message}`);
+      resolve({ exitCode: -1, stdout, stderr: stderr + err.message });
+    });
+    proc.on('close', (code) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      cancel?.dispose();
+      ch.appendLine(`---------- build exit code ${code ?? -1} ----------`);
+      resolve({ exitCode: code ?? -1, stdout, stderr });
+    });
+  });
+}
@@ -1,10 +1,13 @@
 /**
  * Integration with CMake Tools extension.
  * Gets API and project, maps source files to executable targets.
+ * With multi-config generators (Ninja Multi-Config, Visual Studio, Xcode) the code model has one
+ * configuration per build type; sources and artifacts are read from the selected one
+ * (gtest-plugin.buildConfiguration, else CMake Tools' active build type, else the first).
  */
 
 import * as vscode from 'vscode';
-import { getCmakeSourceDirectory } from './config';
+import { getCmakeSourceDirectory, getBuildConfiguration } from './config';
 
 // We use dynamic require/import for optional dependency vscode-cmake-tools-api
 // so extension loads even if CMake Tools is not installed (we have extensionDependencies so it will be).
@@ -26,31 +29,37 @@ export interface Project {
   ): Promise<CommandResult>;
   getBuildDirectory(): Promise<string | undefined>;
   listBuildTargets(): Promise<string[] | undefined>;
+  /** Active build type (e.g. Debug); missing in older CMake Tools versions. */
+  getActiveBuildType?(): Promise<string | undefined>;
   readonly codeModel: CodeModelContent | undefined;
 }
-interface CommandResult {
+export interface CommandResult {
   exitCode: number;
   stdout?: string;
   stderr?: string;
 }
-interface CodeModelContent {
-  configurations: Array<{
+export interface CodeModelConfiguration {
+  name: string;
+  projects: Array<{
     name: string;
-    projects: Array<{
+    sourceDirectory: string;
+    targets: Array<{
       name: string;
-      sourceDirectory: string;
-      targets: Array<{
-        name: string;
-        type: string;
-        fullName?: string;
-        fileGroups?: Array<{ sources: string[] }>;
-      }>;
+      type: string;
+      fullName?: string;
+      artifacts?: string[];
+      fileGroups?: Array<{ sources: string[]; includePath?: Array<{ path: string }> }>;
     }>;
   }>;
 }
+interface CodeModelContent {
+  configurations: CodeModelConfiguration[];
+}
 
 let cachedApi: CMakeToolsApi | undefined;
 let cachedExtension: vscode.Extension<unknown> | undefined;
+/** Build type selected for each project, resolved in getProject (the code model readers are synchronous). */
+const selectedBuildTypes = new WeakMap<Project, string | undefined>();
 
 /**
  * Get CMake Tools API (v1). Returns undefined if extension not installed or not active.
@@ -82,6 +91,7 @@ export async function getCMakeApi(): Promise<CMakeToolsApi | undefined> {
 /**
  * Get the CMake project for the given workspace folder.
  * If gtest-plugin.cmakeSourceDirectory is set, uses that path as the project root.
+ * Also records the build type to read from the code model (see getActiveConfiguration).
  */
 export async function getProject(
   workspaceFolder: vscode.WorkspaceFolder
@@ -92,7 +102,43 @@ export async function getProject(
   const projectUri = customDir
     ? vscode.Uri.file(customDir)
     : workspaceFolder.uri;
-  return api.getProject(projectUri) as Promise<Project | undefined>;
+  const project = await api.getProject(projectUri);
+  if (!project) {
+    return undefined;
+  }
+  let buildType = getBuildConfiguration(workspaceFolder);
+  if (!buildType) {
+    try {
+      buildType = await project.getActiveBuildType?.();
+    } catch {
+      buildType = undefined;
+    }
+  }
+  selectedBuildTypes.set(project, buildType);
+  return project;
+}
+
+/** True if the code model has several configurations (multi-config generator). */
+export function isMultiConfig(project: Project): boolean {
+  return (project.codeModel?.configurations?.length ?? 0) > 1;
+}
+
+/**
+ * Code model configuration matching the selected build type (case-insensitive),
+ * or the first configuration if none matches (single-config generators have just one).
+ */
+export function getActiveConfiguration(project: Project): CodeModelConfiguration | undefined {
+  const configurations = project.codeModel?.configurations;
+  if (!configurations || configurations.length === 0) {
+    return undefined;
+  }
+  const wanted = selectedBuildTypes.get(project)?.toLowerCase();
+  return configurations.find((c) => c.name.toLowerCase() === wanted) ?? configurations[0];
+}
+
+/** Name of the configuration sources and artifacts are read from (e.g. Debug); undefined if unnamed. */
+export function getConfigurationName(project: Project): string | undefined {
+  return getActiveConfiguration(project)?.name || undefined;
 }
 
 /**
@@ -101,11 +147,10 @@ export async function getProject(
  */
 export function getExecutableSources(project: Project): Map<string, string[]> {
   const map = new Map<string, string[]>();
-  const codeModel = project.codeModel;
-  if (!codeModel || !codeModel.configurations || codeModel.configurations.length === 0) {
+  const config = getActiveConfiguration(project);
+  if (!config) {
     return map;
   }
-  const config = codeModel.configurations[0];
   for (const proj of config.projects || []) {
     for (const target of proj.targets || []) {
       if (target.type !== 'EXECUTABLE') continue;
@@ -124,6 +169,24 @@ export function getExecutableSources(project: Project): Map<string, string[]> {
   return map;
 }
 
+/**
+ * Executable targets that use GoogleTest, recognized by a googletest / gtest include directory
+ * (added by linking GTest::gtest or gtest_main). Executables using a system-wide install
+ * (/usr/include) have none; see gtest-plugin.testExecutables.
+ */
+export function getGTestExecutables(project: Project): string[] {
+  const out: string[] = [];
+  for (const proj of getActiveConfiguration(project)?.projects || []) {
+    for (const target of proj.targets || []) {
+      const includes = (target.fileGroups || []).flatMap((fg) => fg.includePath || []);
+      if (target.type === 'EXECUTABLE' && includes.some((inc) => /googletest|[\\/]gtest([\\/]|$)/i.test(inc.path))) {
+        out.push(target.name);
+      }
+    }
+  }
+  return out;
+}
+
 /**
  * Get executable target name that contains the given source file path.
  * Returns first matching executable; if multiple executables use same file, first one is returned.
@@ -143,3 +206,25 @@ export function getExecutableForFile(
   }
   return undefined;
 }
+
+/**
+ * Get executable path for a target from code model (artifacts of the active configuration).
+ * Returns the first artifact of the target, or undefined if the target is unknown or not built yet.
+ */
+export function getExecutablePath(
+  project: Project,
+  targetName: string
+): string | undefined {
+  const config = getActiveConfiguration(project);
+  if (!config?.projects) {
+    return undefined;
+  }
+  for (const proj of config.projects) {
+    for (const target of proj.targets || []) {
+      if (target.name === targetName && target.artifacts?.length) {
+        return target.artifacts[0];
+      }
+    }
+  }
+  return undefined;
+}
@@ -12,7 +12,7 @@ export const CMD_RUN_SINGLE = 'gtest-plugin.runSingleTest';
 export const CMD_DEBUG_SINGLE = 'gtest-plugin.debugSingleTest';
 
 /**
- * Provides code lenses at each line that has a GTest (TEST/TEST_F/TEST_P).
+ * Provides code lenses at each line that has a GTest (TEST/TEST_F/TEST_P/TYPED_TEST/TYPED_TEST_P).
  * Each test gets two lenses: "Run" and "Debug".
  */
 export class GTestCodeLensProvider implements vscode.CodeLensProvider {
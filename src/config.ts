@@ -1,9 +1,12 @@
 /**
  * Configuration types and helpers for GTest Plugin.
  * Reads settings from VS Code workspace/user settings (JSON).
+ * Getters that take a workspace folder read that folder's settings (multi-root workspaces);
+ * without one they read the workspace settings.
  */
 
 import * as vscode from 'vscode';
+import * as os from 'os';
 
 // Configuration key prefix used in package.json "contributes.configuration"
 const CONFIG_SECTION = 'gtest-plugin';
@@ -28,7 +31,7 @@ export function resolvePath(
  * Empty = use workspace folder.
  */
 export function getCmakeSourceDirectory(workspaceFolder: vscode.WorkspaceFolder): string | undefined {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder.uri);
   const raw = config.get<string>('cmakeSourceDirectory', '');
   if (!raw || raw.trim() === '') return undefined;
   return resolvePath(raw.trim(), workspaceFolder);
@@ -39,7 +42,7 @@ export function getCmakeSourceDirectory(workspaceFolder: vscode.WorkspaceFolder)
  * Uses gtest-plugin.scanDirectory from settings.
  */
 export function getScanDirectory(workspaceFolder: vscode.WorkspaceFolder): string {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder.uri);
   const raw = config.get<string>('scanDirectory', '${workspaceFolder}');
   return resolvePath(raw, workspaceFolder);
 }
@@ -48,28 +51,81 @@ export function getScanDirectory(workspaceFolder: vscode.WorkspaceFolder): strin
  * Get glob pattern for files to include when scanning.
  * Uses gtest-plugin.scanIncludePattern from settings.
  */
-export function getScanIncludePattern(): string {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+export function getScanIncludePattern(workspaceFolder?: vscode.WorkspaceFolder): string {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
   return config.get<string>(
     'scanIncludePattern',
     '**/*{test,tests,spec}*.{cpp,hpp}'
   );
 }
 
+/** How tests are discovered: from source macros only, or from the built executables. */
+export type DiscoveryMode = 'source' | 'executable';
+
+/**
+ * Get test discovery mode.
+ * 'executable' runs each built test executable with --gtest_list_tests and merges source locations.
+ */
+export function getDiscoveryMode(workspaceFolder?: vscode.WorkspaceFolder): DiscoveryMode {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  return config.get<string>('discoveryMode', 'source') === 'executable' ? 'executable' : 'source';
+}
+
+/**
+ * Get executable targets to list with --gtest_list_tests even without scanned test sources
+ * (GTest patterns such as *_tests; "*" = every executable target).
+ */
+export function getTestExecutables(workspaceFolder?: vscode.WorkspaceFolder): string[] {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  return config.get<string[]>('testExecutables', []);
+}
+
 /**
  * Get number of parallel build jobs (for -j).
- * 0 means use CMake Tools default / build preset.
+ * > 0 builds with `cmake --build ... -j N`; 0 means use CMake Tools default / build preset.
  */
-export function getBuildJobs(): number {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+export function getBuildJobs(workspaceFolder?: vscode.WorkspaceFolder): number {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
   return config.get<number>('buildJobs', 0);
 }
 
+/** How ensureBuilt decides whether to configure and build. */
+export type UpToDateCheck = 'mtime' | 'buildTool';
+
+/**
+ * Get how the up-to-date check before a run works: 'mtime' compares CMake inputs, sources and
+ * included headers with the last build; 'buildTool' always builds and lets CMake / the build tool decide.
+ */
+export function getUpToDateCheck(workspaceFolder?: vscode.WorkspaceFolder): UpToDateCheck {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  return config.get<UpToDateCheck>('upToDateCheck', 'mtime');
+}
+
+/**
+ * Get the CMake build preset used when building with `cmake --build` (buildJobs > 0).
+ * Empty = build the project's build directory without a preset.
+ */
+export function getBuildPreset(workspaceFolder?: vscode.WorkspaceFolder): string | undefined {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  const raw = config.get<string>('buildPreset', '');
+  return raw && raw.trim() !== '' ? raw.trim() : undefined;
+}
+
+/**
+ * Get the build configuration (e.g. Debug) to take artifacts and sources from with multi-config
+ * generators. Empty = follow the active build type of CMake Tools.
+ */
+export function getBuildConfiguration(workspaceFolder?: vscode.WorkspaceFolder): string | undefined {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  const raw = config.get<string>('buildConfiguration', '');
+  return raw && raw.trim() !== '' ? raw.trim() : undefined;
+}
+
 /**
  * Get default GTest filter string (optional).
  */
-export function getGtestFilter(): string {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+export function getGtestFilter(workspaceFolder?: vscode.WorkspaceFolder): string {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
   return config.get<string>('gtestFilter', '');
 }
 
@@ -77,8 +133,8 @@ export function getGtestFilter(): string {
  * Get environment variables to set when running tests.
  * Keys = variable names, values = string values.
  */
-export function getEnv(): Record<string, string> {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+export function getEnv(workspaceFolder?: vscode.WorkspaceFolder): Record<string, string> {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
   const obj = config.get<Record<string, string>>('env', {});
   return obj ?? {};
 }
@@ -86,18 +142,119 @@ export function getEnv(): Record<string, string> {
 /**
  * Get extra GTest flags (e.g. --gtest_repeat, --gtest_break_on_failure).
  */
-export function getGtestFlags(): string[] {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+export function getGtestFlags(workspaceFolder?: vscode.WorkspaceFolder): string[] {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
   const arr = config.get<string[]>('gtestFlags', []);
   return Array.isArray(arr) ? arr : [];
 }
 
+/**
+ * Get timeout in seconds for a whole test executable run.
+ * 0 = no timeout. When it expires, the process tree is killed.
+ */
+export function getRunTimeout(workspaceFolder?: vscode.WorkspaceFolder): number {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  return config.get<number>('runTimeout', 0);
+}
+
+/**
+ * Get timeout in seconds for a single test (measured from its [ RUN ] line).
+ * 0 = no timeout. When it expires, the process tree is killed and the test is marked timed out.
+ */
+export function getTestTimeout(workspaceFolder?: vscode.WorkspaceFolder): number {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  return config.get<number>('testTimeout', 0);
+}
+
+/**
+ * Whether one executable run is split into parallel GTest shards
+ * (GTEST_TOTAL_SHARDS / GTEST_SHARD_INDEX).
+ */
+export function getParallelExecution(workspaceFolder?: vscode.WorkspaceFolder): boolean {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  return config.get<boolean>('parallelExecution', false);
+}
+
+/**
+ * Get number of shards for parallel execution.
+ * 0 (default) = number of CPUs.
+ */
+export function getParallelWorkers(workspaceFolder?: vscode.WorkspaceFolder): number {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  const n = config.get<number>('parallelWorkers', 0);
+  return n > 0 ? n : Math.max(1, os.cpus().length);
+}
+
+/**
+ * Get how many test executables "Run All Tests" runs at the same time.
+ */
+export function getMaxConcurrentExecutables(): number {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  return Math.max(1, config.get<number>('maxConcurrentExecutables', 2));
+}
+
+/** Tool that collects line coverage for Run with Coverage. */
+export type CoverageTool = 'gcovr' | 'llvm-cov';
+
+/**
+ * Get the coverage tool: gcovr for GCC --coverage builds (.gcda), llvm-cov (with llvm-profdata)
+ * for Clang -fprofile-instr-generate -fcoverage-mapping builds.
+ */
+export function getCoverageTool(workspaceFolder?: vscode.WorkspaceFolder): CoverageTool {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
+  return config.get<string>('coverageTool', 'gcovr') === 'llvm-cov' ? 'llvm-cov' : 'gcovr';
+}
+
+/** How tests are grouped under each executable in the GTest tree. */
+export type TreeGrouping = 'suite' | 'file' | 'directory' | 'flat';
+
+const TREE_GROUPINGS: TreeGrouping[] = ['suite', 'file', 'directory', 'flat'];
+
+/**
+ * Get the tree grouping: Suite -> Test, File -> Suite -> Test, source directories -> File -> Suite -> Test,
+ * or a flat list of Suite.Test.
+ */
+export function getTreeGrouping(): TreeGrouping {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const raw = config.get<string>('treeGrouping', 'suite') as TreeGrouping;
+  return TREE_GROUPINGS.includes(raw) ? raw : 'suite';
+}
+
+/**
+ * Save the tree grouping (view title switcher): in the workspace settings if the workspace
+ * already sets it, else in the user settings.
+ */
+export async function setTreeGrouping(grouping: TreeGrouping): Promise<void> {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const target =
+    config.inspect('treeGrouping')?.workspaceValue !== undefined
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global;
+  await config.update('treeGrouping', grouping, target);
+}
+
+/**
+ * Get the delay (ms) watch mode waits after the last save before rebuilding and rerunning.
+ */
+export function getWatchDebounce(): number {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  return Math.max(0, config.get<number>('watchDebounce', 500));
+}
+
+/**
+ * Get how many past runs are kept per test (persisted in workspace storage).
+ */
+export function getHistorySize(): number {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  return Math.max(1, config.get<number>('historySize', 20));
+}
+
 /**
  * Get custom GDB (or MI debugger) path for debugging tests.
  * Used when building the debug launch config; empty = use default or launch.json.
  */
-export function getMiDebuggerPath(): string | undefined {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+export function getMiDebuggerPath(workspaceFolder?: vscode.WorkspaceFolder): string | undefined {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder?.uri);
   const raw = config.get<string>('miDebuggerPath', '');
   return raw && raw.trim() !== '' ? raw.trim() : undefined;
 }
@@ -107,7 +264,7 @@ export function getMiDebuggerPath(): string | undefined {
  * Resolves ${workspaceFolder}; empty = use env from settings or launch.json.
  */
 export function getEnvFile(workspaceFolder: vscode.WorkspaceFolder): string | undefined {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, workspaceFolder.uri);
   const raw = config.get<string>('envFile', '');
   if (!raw || raw.trim() === '') return undefined;
   return resolvePath(raw.trim(), workspaceFolder);
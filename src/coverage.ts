@@ -0,0 +1,244 @@
+/**
+ * Line coverage for "Run with Coverage". Before the run the old coverage data of the executables
+ * about to run is removed; after it the line counts are collected locally with one of:
+ * - gcovr: GCC builds with --coverage (.gcda files next to the objects)
+ * - llvm-cov: Clang builds with -fprofile-instr-generate -fcoverage-mapping (.profraw files written
+ *   through LLVM_PROFILE_FILE, merged with llvm-profdata, exported with llvm-cov as LCOV)
+ * The test controller shows the result through the Testing API (editor line highlighting,
+ * per-file percentages).
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { getProject, getExecutablePath } from './cmakeIntegration';
+import { getCmakeSourceDirectory, getCoverageTool, CoverageTool } from './config';
+import { findTargetObjectDir } from './buildDependencies';
+import { logInfo, logError } from './log';
+
+/** Directory under the build directory for profiles and reports of coverage runs. */
+const COVERAGE_DIR = 'gtest-coverage';
+/** Merging and exporting a large project can take a while. */
+const TOOL_TIMEOUT_MS = 5 * 60 * 1000;
+const TOOL_MAX_BUFFER = 256 * 1024 * 1024;
+
+/** Line coverage of one source file. */
+export interface FileLineCoverage {
+  filePath: string;
+  /** 1-based line -> execution count (only lines with code). */
+  lines: Map<number, number>;
+}
+
+/** Coverage data of one workspace folder's build, prepared before its tests run. */
+interface CoverageSession {
+  tool: CoverageTool;
+  buildDir: string;
+  /** Written by the tool runs; created on start. */
+  outputDir: string;
+  /** Extra environment for the test processes (LLVM_PROFILE_FILE for llvm-cov). */
+  env: Record<string, string>;
+}
+
+/** Add the counts of one line (a line can be reported several times, e.g. per template instance). */
+function addLine(lines: Map<number, number>, line: number, count: number): void {
+  lines.set(line, (lines.get(line) ?? 0) + count);
+}
+
+/**
+ * Parse a gcovr --json report. File names are relative to the gcovr root (rootDir);
+ * lines gcovr marks as non-code are skipped.
+ */
+export function parseGcovrJson(text: string, rootDir: string): FileLineCoverage[] {
+  const report = JSON.parse(text) as {
+    files?: Array<{
+      file: string;
+      lines?: Array<{ line_number: number; count: number; 'gcovr/noncode'?: boolean }>;
+    }>;
+  };
+  const byFile = new Map<string, Map<number, number>>();
+  for (const f of report.files ?? []) {
+    const filePath = path.isAbsolute(f.file) ? f.file : path.resolve(rootDir, f.file);
+    const lines = byFile.get(filePath) ?? new Map<number, number>();
+    for (const l of f.lines ?? []) {
+      if (l['gcovr/noncode']) {
+        continue;
+      }
+      addLine(lines, l.line_number, l.count);
+    }
+    byFile.set(filePath, lines);
+  }
+  return Array.from(byFile, ([filePath, lines]) => ({ filePath, lines }));
+}
+
+/** Parse LCOV tracefile records (SF: file, DA: line,count, end_of_record). */
+export function parseLcov(text: string, baseDir: string): FileLineCoverage[] {
+  const byFile = new Map<string, Map<number, number>>();
+  let lines: Map<number, number> | undefined;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line.startsWith('SF:')) {
+      const file = line.slice(3);
+      const filePath = path.isAbsolute(file) ? file : path.resolve(baseDir, file);
+      lines = byFile.get(filePath) ?? new Map<number, number>();
+      byFile.set(filePath, lines);
+    } else if (line.startsWith('DA:') && lines) {
+      const [lineNo, count] = line.slice(3).split(',');
+      addLine(lines, Number(lineNo), Number(count));
+    } else if (line === 'end_of_record') {
+      lines = undefined;
+    }
+  }
+  return Array.from(byFile, ([filePath, lines]) => ({ filePath, lines }));
+}
+
+/** Delete all files with the given extension under dir (coverage data of earlier runs). */
+async function deleteFiles(dir: string, extension: string): Promise<number> {
+  let deleted = 0;
+  const visit = async (d: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(d, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const e of entries) {
+      const full = path.join(d, e.name);
+      if (e.isDirectory()) {
+        await visit(full);
+      } else if (e.name.endsWith(extension)) {
+        try {
+          await fs.promises.unlink(full);
+          deleted++;
+        } catch {
+          // Locked or already gone; stale counts from it are harmless
+        }
+      }
+    }
+  };
+  await visit(dir);
+  return deleted;
+}
+
+/**
+ * Remove coverage data of earlier runs, so the counts come from this run only. gcov writes .gcda
+ * files next to the objects, so only the object directories of the executables that run are
+ * cleared, not the whole build tree.
+ */
+async function startCoverage(tool: CoverageTool, buildDir: string, objectDirs: string[]): Promise<CoverageSession> {
+  const outputDir = path.join(buildDir, COVERAGE_DIR);
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  if (tool === 'llvm-cov') {
+    await deleteFiles(outputDir, '.profraw');
+    // %p: one profile per process, so parallel shards do not overwrite each other
+    return { tool, buildDir, outputDir, env: { LLVM_PROFILE_FILE: path.join(outputDir, 'gtest-%p.profraw') } };
+  }
+  let deleted = 0;
+  for (const dir of objectDirs) {
+    deleted += await deleteFiles(dir, '.gcda');
+  }
+  logInfo(`Coverage: removed ${deleted} .gcda file(s) from ${objectDirs.join(', ')}`);
+  return { tool, buildDir, outputDir, env: {} };
+}
+
+/** Run a coverage tool; rejects with a readable message if it cannot be started or fails. */
+function runTool(command: string, args: string[], cwd: string): Promise<string> {
+  logInfo(`Coverage: ${command} ${args.join(' ')}`);
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      { cwd, timeout: TOOL_TIMEOUT_MS, maxBuffer: TOOL_MAX_BUFFER },
+      (err, stdout, stderr) => {
+        if (err) {
+          const notFound = (err as NodeJS.ErrnoException).code === 'ENOENT';
+          reject(new Error(notFound ? `${command} not found on PATH` : `${command} failed: ${stderr || err.message}`));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/** Collect line coverage of a session after its tests ran. */
+async function collectCoverage(
+  session: CoverageSession,
+  sourceRoot: string,
+  exePaths: string[]
+): Promise<FileLineCoverage[]> {
+  if (session.tool === 'gcovr') {
+    const report = path.join(session.outputDir, 'coverage.json');
+    await runTool('gcovr', ['--root', sourceRoot, '--json', report, session.buildDir], session.buildDir);
+    return parseGcovrJson(fs.readFileSync(report, 'utf-8'), sourceRoot);
+  }
+  const profiles = fs
+    .readdirSync(session.outputDir)
+    .filter((f) => f.endsWith('.profraw'))
+    .map((f) => path.join(session.outputDir, f));
+  if (profiles.length === 0) {
+    throw new Error('no .profraw files were written (build with -fprofile-instr-generate -fcoverage-mapping)');
+  }
+  const merged = path.join(session.outputDir, 'coverage.profdata');
+  await runTool('llvm-profdata', ['merge', '-sparse', ...profiles, '-o', merged], session.buildDir);
+  // The first binary is the main object, the others are passed with -object
+  const objects = exePaths.flatMap((p, i) => (i === 0 ? [p] : ['-object', p]));
+  const lcov = await runTool(
+    'llvm-cov',
+    ['export', ...objects, `-instr-profile=${merged}`, '-format=lcov'],
+    session.buildDir
+  );
+  return parseLcov(lcov, session.buildDir);
+}
+
+/**
+ * Run tests with coverage, folder by folder: clear the folder's coverage data, run its executables
+ * (runTests gets the extra environment for the test processes), then collect its line coverage.
+ * Tool errors are shown and logged; the tests still count as run.
+ * @returns Line coverage of all source files of all folders that could be collected
+ */
+export async function runWithCoverage<T extends { folder: vscode.WorkspaceFolder; executable: string }>(
+  targets: T[],
+  runTests: (target: T, env: Record<string, string>) => Promise<void>
+): Promise<FileLineCoverage[]> {
+  const byFolder = new Map<string, T[]>();
+  for (const t of targets) {
+    const key = t.folder.uri.toString();
+    byFolder.set(key, [...(byFolder.get(key) ?? []), t]);
+  }
+  const out: FileLineCoverage[] = [];
+  for (const folderTargets of byFolder.values()) {
+    const folder = folderTargets[0].folder;
+    const project = await getProject(folder);
+    const buildDir = project ? await project.getBuildDirectory() : undefined;
+    if (!project || !buildDir) {
+      vscode.window.showErrorMessage(`Coverage: no CMake build directory for ${folder.name}.`);
+      continue;
+    }
+    const tool = getCoverageTool(folder);
+    const exePaths = folderTargets
+      .map((t) => getExecutablePath(project, t.executable))
+      .filter((p): p is string => !!p);
+    const objectDirs: string[] = [];
+    for (const target of folderTargets) {
+      const dir = await findTargetObjectDir(buildDir, target.executable, getExecutablePath(project, target.executable));
+      if (dir) {
+        objectDirs.push(dir);
+      }
+    }
+    const session = await startCoverage(tool, buildDir, objectDirs);
+    for (const target of folderTargets) {
+      await runTests(target, session.env);
+    }
+    try {
+      const files = await collectCoverage(session, getCmakeSourceDirectory(folder) ?? folder.uri.fsPath, exePaths);
+      logInfo(`Coverage: ${files.length} file(s) from ${tool} for ${folder.name}`);
+      out.push(...files);
+    } catch (e) {
+      const message = `Coverage (${tool}): ${(e as Error).message}`;
+      logError(message);
+      vscode.window.showErrorMessage(message);
+    }
+  }
+  return out;
+}
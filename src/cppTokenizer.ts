@@ -0,0 +1,354 @@
+/**
+ * Lightweight C++ tokenizer for the test scanner.
+ * Skips comments, string/char literals (including raw strings) and code in inactive
+ * preprocessor regions (#if 0, #ifdef of macros #undef'd in the file, ...).
+ * It is not a preprocessor: macros are not expanded and unknown conditions count as active.
+ */
+
+/** Token kinds the scanner cares about. */
+export type TokenKind = 'identifier' | 'number' | 'punct';
+
+/** Single token with its position. */
+export interface Token {
+  kind: TokenKind;
+  text: string;
+  /** 0-based line of the first character. */
+  line: number;
+  /** 0-based column of the first character. */
+  column: number;
+  /** 0-based column just past the last character (same line as `line`). */
+  endColumn: number;
+}
+
+/** Result of evaluating a preprocessor condition: true/false when known, undefined otherwise. */
+type CondValue = boolean | undefined;
+
+/** One level of #if nesting. */
+interface CondFrame {
+  /** Whether the enclosing region is active. */
+  parentActive: boolean;
+  /** A previous branch of this #if chain was definitely taken. */
+  taken: boolean;
+  /** Whether the current branch is active. */
+  active: boolean;
+}
+
+/** Line/column bookkeeping while walking the text. */
+class Cursor {
+  pos = 0;
+  line = 0;
+  lineStart = 0;
+
+  constructor(readonly text: string) {}
+
+  get column(): number {
+    return this.pos - this.lineStart;
+  }
+
+  peek(offset = 0): string {
+    return this.text.charAt(this.pos + offset);
+  }
+
+  eof(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  /** Advance one character, tracking newlines. */
+  next(): string {
+    const c = this.text.charAt(this.pos++);
+    if (c === '\n') {
+      this.line++;
+      this.lineStart = this.pos;
+    }
+    return c;
+  }
+}
+
+/**
+ * Evaluate a simple #if expression: integer literals, defined(X) / defined X,
+ * macros with known values, '!' and '&&' / '||' chains. Anything else is unknown.
+ */
+function evaluateCondition(expr: string, macros: Map<string, string | false>): CondValue {
+  const trimmed = expr.trim();
+  if (trimmed === '') {
+    return undefined;
+  }
+  if (trimmed.includes('||')) {
+    const parts = trimmed.split('||').map((p) => evaluateCondition(p, macros));
+    if (parts.some((p) => p === true)) {
+      return true;
+    }
+    return parts.every((p) => p === false) ? false : undefined;
+  }
+  if (trimmed.includes('&&')) {
+    const parts = trimmed.split('&&').map((p) => evaluateCondition(p, macros));
+    if (parts.some((p) => p === false)) {
+      return false;
+    }
+    return parts.every((p) => p === true) ? true : undefined;
+  }
+  if (trimmed.startsWith('!')) {
+    const inner = evaluateCondition(trimmed.slice(1), macros);
+    return inner === undefined ? undefined : !inner;
+  }
+  if (trimmed.startsWith('(') && trimmed.endsWith(')')) {
+    return evaluateCondition(trimmed.slice(1, -1), macros);
+  }
+  const num = trimmed.match(/^(\d+)[uUlL]*$/);
+  if (num) {
+    return Number(num[1]) !== 0;
+  }
+  const def = trimmed.match(/^defined\s*(?:\(\s*(\w+)\s*\)|(\w+))$/);
+  if (def) {
+    const value = macros.get(def[1] ?? def[2]);
+    return value === undefined ? undefined : value !== false;
+  }
+  if (/^\w+$/.test(trimmed)) {
+    const value = macros.get(trimmed);
+    if (value === undefined || value === false) {
+      return value === false ? false : undefined;
+    }
+    return evaluateCondition(value, new Map());
+  }
+  return undefined;
+}
+
+/** Read a preprocessor directive (with line continuations), comments stripped. */
+function readDirective(cur: Cursor): string {
+  let out = '';
+  while (!cur.eof()) {
+    const c = cur.peek();
+    if (c === '\\' && (cur.peek(1) === '\n' || (cur.peek(1) === '\r' && cur.peek(2) === '\n'))) {
+      cur.next();
+      if (cur.peek() === '\r') {
+        cur.next();
+      }
+      cur.next();
+      out += ' ';
+      continue;
+    }
+    if (c === '\n') {
+      break;
+    }
+    if (c === '/' && cur.peek(1) === '/') {
+      while (!cur.eof() && cur.peek() !== '\n') {
+        cur.next();
+      }
+      break;
+    }
+    if (c === '/' && cur.peek(1) === '*') {
+      skipBlockComment(cur);
+      out += ' ';
+      continue;
+    }
+    out += cur.next();
+  }
+  return out;
+}
+
+/** Skip a block comment starting at its opening slash. */
+function skipBlockComment(cur: Cursor): void {
+  cur.next();
+  cur.next();
+  while (!cur.eof() && !(cur.peek() === '*' && cur.peek(1) === '/')) {
+    cur.next();
+  }
+  if (!cur.eof()) {
+    cur.next();
+    cur.next();
+  }
+}
+
+/** Skip a quoted literal ('...' or "...") starting at the opening quote. */
+function skipQuoted(cur: Cursor, quote: string): void {
+  cur.next();
+  while (!cur.eof()) {
+    const c = cur.next();
+    if (c === '\\') {
+      cur.next();
+    } else if (c === quote || c === '\n') {
+      return;
+    }
+  }
+}
+
+/** Skip a raw string literal R"delim( ... )delim" starting at the opening quote. */
+function skipRawString(cur: Cursor): void {
+  cur.next();
+  let delim = '';
+  while (!cur.eof() && cur.peek() !== '(' && cur.peek() !== '\n') {
+    delim += cur.next();
+  }
+  const end = `)${delim}"`;
+  const idx = cur.text.indexOf(end, cur.pos);
+  const stop = idx < 0 ? cur.text.length : idx + end.length;
+  while (cur.pos < stop) {
+    cur.next();
+  }
+}
+
+/**
+ * Apply a preprocessor directive to the condition stack and macro table.
+ * Only conditionals, #define and #undef matter; everything else is ignored.
+ */
+function applyDirective(
+  directive: string,
+  stack: CondFrame[],
+  macros: Map<string, string | false>
+): void {
+  const m = directive.match(/^\s*#\s*(\w+)\s*(.*)$/s);
+  if (!m) {
+    return;
+  }
+  const [, name, rest] = m;
+  const top = stack[stack.length - 1];
+  const active = top ? top.active : true;
+  const open = (cond: CondValue) => {
+    stack.push({
+      parentActive: active,
+      taken: cond === true,
+      active: active && cond !== false
+    });
+  };
+  switch (name) {
+    case 'if':
+      open(evaluateCondition(rest, macros));
+      break;
+    case 'ifdef':
+      open(evaluateCondition(`defined(${rest.trim()})`, macros));
+      break;
+    case 'ifndef': {
+      const cond = evaluateCondition(`defined(${rest.trim()})`, macros);
+      open(cond === undefined ? undefined : !cond);
+      break;
+    }
+    case 'elif':
+    case 'elifdef':
+    case 'elifndef':
+    case 'else': {
+      if (!top) {
+        return;
+      }
+      let cond: CondValue = true;
+      if (name === 'elif') {
+        cond = evaluateCondition(rest, macros);
+      }
+      if (name === 'elifdef') {
+        cond = evaluateCondition(`defined(${rest.trim()})`, macros);
+      }
+      if (name === 'elifndef') {
+        const d = evaluateCondition(`defined(${rest.trim()})`, macros);
+        cond = d === undefined ? undefined : !d;
+      }
+      top.active = top.parentActive && !top.taken && cond !== false;
+      if (cond === true) {
+        top.taken = true;
+      }
+      break;
+    }
+    case 'endif':
+      stack.pop();
+      break;
+    case 'define':
+      if (active) {
+        // Function-like macros only count as defined; their value is unknown
+        const def = rest.match(/^(\w+)(\(?)\s*(.*)$/s);
+        if (def) {
+          macros.set(def[1], def[2] ? '' : def[3].trim() || '1');
+        }
+      }
+      break;
+    case 'undef':
+      if (active) {
+        macros.set(rest.trim(), false);
+      }
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Tokenize C++ source: identifiers, numbers and punctuation of active code only.
+ * Comments, literals and preprocessor directives produce no tokens.
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const cur = new Cursor(text);
+  const stack: CondFrame[] = [];
+  const macros = new Map<string, string | false>();
+  let atLineStart = true;
+  while (!cur.eof()) {
+    const c = cur.peek();
+    if (c === '\n') {
+      cur.next();
+      atLineStart = true;
+      continue;
+    }
+    if (c === ' ' || c === '\t' || c === '\r' || c === '\f' || c === '\v') {
+      cur.next();
+      continue;
+    }
+    if (c === '\\' && (cur.peek(1) === '\n' || cur.peek(1) === '\r')) {
+      // Line continuation outside a directive: joins lines, not a token
+      cur.next();
+      continue;
+    }
+    if (c === '/' && cur.peek(1) === '/') {
+      while (!cur.eof() && cur.peek() !== '\n') {
+        cur.next();
+      }
+      continue;
+    }
+    if (c === '/' && cur.peek(1) === '*') {
+      skipBlockComment(cur);
+      continue;
+    }
+    if (c === '#' && atLineStart) {
+      applyDirective(readDirective(cur), stack, macros);
+      continue;
+    }
+    atLineStart = false;
+    const active = stack.length === 0 || stack[stack.length - 1].active;
+    const line = cur.line;
+    const column = cur.column;
+    if (c === '"' || c === "'") {
+      skipQuoted(cur, c);
+      continue;
+    }
+    if (/[A-Za-z_]/.test(c)) {
+      let ident = '';
+      while (!cur.eof() && /\w/.test(cur.peek())) {
+        ident += cur.next();
+      }
+      // Raw string and prefixed literals: R"(...)", u8"...", L'x'
+      if (cur.peek() === '"' && /^(?:u8|u|U|L)?R$/.test(ident)) {
+        skipRawString(cur);
+        continue;
+      }
+      if ((cur.peek() === '"' || cur.peek() === "'") && /^(?:u8|u|U|L)$/.test(ident)) {
+        skipQuoted(cur, cur.peek());
+        continue;
+      }
+      if (active) {
+        tokens.push({ kind: 'identifier', text: ident, line, column, endColumn: cur.column });
+      }
+      continue;
+    }
+    if (/\d/.test(c)) {
+      let num = '';
+      while (!cur.eof() && /[\w.']/.test(cur.peek())) {
+        num += cur.next();
+      }
+      if (active) {
+        tokens.push({ kind: 'number', text: num, line, column, endColumn: cur.column });
+      }
+      continue;
+    }
+    cur.next();
+    if (active) {
+      tokens.push({ kind: 'punct', text: c, line, column, endColumn: cur.column });
+    }
+  }
+  return tokens;
+}
@@ -4,29 +4,73 @@
  */
 
 import * as vscode from 'vscode';
-import { GTestTreeProvider } from './testTree';
-import { runTests, debugTests, runTestsWithNames, debugTestsWithNames } from './testRunner';
+import { GTestTestController } from './testController';
+import { TestDiagnostics, TestLocator } from './testDiagnostics';
+import { FlakyTestsProvider, stressTest } from './flakyTests';
+import { WatchMode } from './watchMode';
+import { TreeFilter, EMPTY_FILTER, isFilterActive, describeFilter, pickFilter } from './treeFilter';
+import {
+  runTests,
+  debugTests,
+  runTestsWithNames,
+  debugTestsWithNames,
+  cancelRunningTests,
+  runAllTests,
+  rerunLastRun,
+  rememberLastRun,
+  failedTestsOf,
+  ExecutableTests,
+  RunSummary
+} from './testRunner';
+import { GTestTreeProvider, GTestTreeNode } from './testTree';
 import { GTestCodeLensProvider, CMD_RUN_SINGLE, CMD_DEBUG_SINGLE } from './codeLens';
 import { showTestOutputFor } from './gtestOutputChannel';
+import { testStore } from './testStore';
+import { ALSO_RUN_DISABLED_FLAG } from './gtestFilter';
+import { getProject, getExecutableSources } from './cmakeIntegration';
+import { ensureBuilt, watchCmakeInputs } from './buildManager';
+import { getDiscoveryMode, getTreeGrouping, setTreeGrouping, TreeGrouping } from './config';
 import { logInfo, logError } from './log';
 
-/** Get the workspace folder we use for CMake (active folder or first). */
-function getWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
-  const folders = vscode.workspace.workspaceFolders;
-  if (!folders || folders.length === 0) return undefined;
-  const active = vscode.window.activeTextEditor?.document.uri;
-  if (active) {
-    const f = vscode.workspace.getWorkspaceFolder(active);
-    if (f) return f;
+/** All open workspace folders; each one is scanned as its own CMake project. */
+function getWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
+  return vscode.workspace.workspaceFolders ?? [];
+}
+
+/** Run targets (executable + test names) for executable nodes. */
+function targetsOf(roots: GTestTreeNode[], treeProvider: GTestTreeProvider): ExecutableTests[] {
+  return roots.map((root) => ({
+    folder: root.folder,
+    executable: root.executable,
+    fullNames: treeProvider.getTestFullNamesUnder(root)
+  }));
+}
+
+/** Show the outcome of a multi-executable run (warning if anything failed; nothing if the build failed). */
+function showRunSummary(summary: RunSummary | undefined): void {
+  if (!summary) {
+    return;
+  }
+  const text =
+    `GTest: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped` +
+    (summary.other > 0 ? `, ${summary.other} not run` : '') +
+    ` in ${(summary.durationMs / 1000).toFixed(1)}s`;
+  logInfo(text);
+  if (summary.failed > 0) {
+    vscode.window.showWarningMessage(text);
+  } else {
+    vscode.window.showInformationMessage(text);
   }
-  return folders[0];
 }
 
 /** Activate the extension: register tree view, commands, code lens, output panel. */
 export function activate(context: vscode.ExtensionContext) {
   console.log('GTest Plugin is now active.');
 
-  // Tree provider for the side panel (Executable -> Suite -> Test)
+  // Restore last results and run history from the previous session
+  testStore.attachStorage(context.workspaceState);
+
+  // Tree provider for the side panel ([Folder ->] Executable -> Suite -> Test)
   logInfo('Initializing GTestTreeProvider');
   const treeProvider = new GTestTreeProvider();
   const treeView = vscode.window.createTreeView('GTestList', {
@@ -35,6 +79,29 @@ export function activate(context: vscode.ExtensionContext) {
   });
   logInfo('Tree view registered');
 
+  // Native Testing API: same tests in Test Explorer, gutter icons and "Run Tests in Current File"
+  const testController = new GTestTestController(context, treeProvider);
+  context.subscriptions.push(testController);
+  logInfo('Test controller registered');
+
+  const locateTest: TestLocator = (folder, executable, fullName) => {
+    const node = treeProvider.findTestNode(folder, executable, fullName);
+    return node?.filePath && node.line !== undefined
+      ? { filePath: node.filePath, line: node.line }
+      : undefined;
+  };
+
+  // Failed assertions as Problems-panel diagnostics at the failing line (cleared when the test passes)
+  context.subscriptions.push(new TestDiagnostics(locateTest));
+
+  // Flaky tests (pass/fail flips on the same build) in their own view
+  const flakyProvider = new FlakyTestsProvider(locateTest);
+  context.subscriptions.push(
+    flakyProvider,
+    vscode.window.createTreeView('GTestFlaky', { treeDataProvider: flakyProvider })
+  );
+  logInfo('Flaky tests view registered');
+
   // Code lens: Run/Debug at each test line in .cpp/.hpp files
   const codeLensProvider = new GTestCodeLensProvider();
   context.subscriptions.push(
@@ -51,11 +118,11 @@ export function activate(context: vscode.ExtensionContext) {
   // When workspace or CMake project changes, refresh tree and code lens
   const refreshAll = async () => {
     logInfo('Refreshing all (tree and codelens)');
-    const folder = getWorkspaceFolder();
-    if (folder) {
+    const folders = getWorkspaceFolders();
+    if (folders.length > 0) {
       try {
-        await treeProvider.setWorkspace(folder);
-        logInfo('Tree provider workspace set');
+        await treeProvider.setWorkspaceFolders(folders);
+        logInfo(`Tree provider workspace set (${folders.length} folder(s))`);
       } catch (e) {
         logError('Error setting tree provider workspace: ' + (e as Error).message);
       }
@@ -66,10 +133,9 @@ export function activate(context: vscode.ExtensionContext) {
     }
   };
 
-  // Initial load: set workspace so tree is populated
-  const folder = getWorkspaceFolder();
-  if (folder) {
-    treeProvider.setWorkspace(folder).then(() => {
+  // Initial load: set workspace folders so tree is populated
+  if (getWorkspaceFolders().length > 0) {
+    treeProvider.setWorkspaceFolders(getWorkspaceFolders()).then(() => {
       logInfo('Initial workspace set for tree provider');
     }).catch((e) => {
       logError('Error during initial tree provider workspace set: ' + (e as Error).message);
@@ -78,6 +144,9 @@ export function activate(context: vscode.ExtensionContext) {
     logError('No workspace folder found at activation');
   }
 
+  // Created or deleted CMakeLists.txt / *.cmake files invalidate the cached CMake input lists
+  context.subscriptions.push(watchCmakeInputs());
+
   // Refresh when workspace folder or CMake config might have changed
   context.subscriptions.push(
     vscode.workspace.onDidChangeWorkspaceFolders(() => {
@@ -85,7 +154,14 @@ export function activate(context: vscode.ExtensionContext) {
       refreshAll();
     }),
     vscode.workspace.onDidChangeConfiguration((e) => {
-      if (e.affectsConfiguration('gtest-plugin')) {
+      if (e.affectsConfiguration('gtest-plugin.treeGrouping')) {
+        logInfo('gtest-plugin.treeGrouping changed, regrouping tree');
+        treeProvider.regroup();
+      } else if (e.affectsConfiguration('gtest-plugin.buildConfiguration')) {
+        // Executables and their sources are read from another code model configuration
+        logInfo('gtest-plugin.buildConfiguration changed, refreshing all');
+        refreshAll();
+      } else if (e.affectsConfiguration('gtest-plugin')) {
         logInfo('gtest-plugin configuration changed, refreshing CodeLens');
         codeLensProvider.refresh();
       }
@@ -94,46 +170,51 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Command: Refresh tests (rescan + rebuild tree)
   context.subscriptions.push(
-    vscode.commands.registerCommand('gtest-plugin.refreshTests', () => {
+    vscode.commands.registerCommand('gtest-plugin.refreshTests', async () => {
       logInfo('Command: refreshTests invoked');
-      refreshAll();
+      for (const folder of getWorkspaceFolders()) {
+        if (getDiscoveryMode(folder) !== 'executable') {
+          continue;
+        }
+        // Listing needs up-to-date binaries, so build test targets before rescanning
+        const project = await getProject(folder);
+        if (project) {
+          logInfo(`Building executables of ${folder.name} for --gtest_list_tests discovery`);
+          await ensureBuilt(context, folder, Array.from(getExecutableSources(project).keys()));
+        }
+      }
+      await refreshAll();
     })
   );
 
-  // Commands that operate on the selected tree item (run/debug test, suite, or executable)
-  const runSelected = async () => {
+  // Commands that operate on the clicked (context menu, inline button) or else the selected tree item
+  const runSelected = async (node?: GTestTreeNode) => {
     logInfo('Command: runSelected invoked');
-    const folder = getWorkspaceFolder();
-    if (!folder) {
-      logError('No workspace folder open for runSelected');
-      vscode.window.showErrorMessage('No workspace folder open.');
-      return;
-    }
-    const sel = treeView.selection[0];
+    const sel = node ?? treeView.selection[0];
     if (!sel) {
       logInfo('No selection in tree view for runSelected');
       vscode.window.showInformationMessage('Select a test, suite, or executable in the GTest view.');
       return;
     }
-    logInfo(`Running tests for selection: ${JSON.stringify(sel)}`);
-    await runTests(context, folder, sel, treeProvider);
-  };
-  const debugSelected = async () => {
-    logInfo('Command: debugSelected invoked');
-    const folder = getWorkspaceFolder();
-    if (!folder) {
-      logError('No workspace folder open for debugSelected');
-      vscode.window.showErrorMessage('No workspace folder open.');
+    logInfo(`Running tests for selection: ${sel.id}`);
+    if (sel.kind === 'folder') {
+      const targets = targetsOf(sel.children, treeProvider);
+      rememberLastRun(targets);
+      showRunSummary(await runAllTests(context, targets));
       return;
     }
-    const sel = treeView.selection[0];
-    if (!sel) {
+    await runTests(context, sel, treeProvider);
+  };
+  const debugSelected = async (node?: GTestTreeNode) => {
+    logInfo('Command: debugSelected invoked');
+    const sel = node ?? treeView.selection[0];
+    if (!sel || sel.kind === 'folder') {
       logInfo('No selection in tree view for debugSelected');
       vscode.window.showInformationMessage('Select a test, suite, or executable in the GTest view.');
       return;
     }
-    logInfo(`Debugging tests for selection: ${JSON.stringify(sel)}`);
-    await debugTests(context, folder, sel, treeProvider);
+    logInfo(`Debugging tests for selection: ${sel.id}`);
+    await debugTests(context, sel, treeProvider);
   };
 
   context.subscriptions.push(
@@ -142,11 +223,42 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand('gtest-plugin.runTestSuite', runSelected),
     vscode.commands.registerCommand('gtest-plugin.debugTestSuite', debugSelected),
     vscode.commands.registerCommand('gtest-plugin.runExecutable', runSelected),
-    vscode.commands.registerCommand('gtest-plugin.debugExecutable', debugSelected)
+    vscode.commands.registerCommand('gtest-plugin.debugExecutable', debugSelected),
+    vscode.commands.registerCommand('gtest-plugin.runGroup', runSelected),
+    vscode.commands.registerCommand('gtest-plugin.debugGroup', debugSelected)
   );
   logInfo('Run/debug commands registered');
 
-  // Command: Show test output (for selected test in tree) — opens Output panel (GTest channel) in bottom panel
+  // Command: Run including disabled (the clicked or selected node, with --gtest_also_run_disabled_tests)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.runIncludingDisabled', async (node?: GTestTreeNode) => {
+      logInfo('Command: runIncludingDisabled invoked');
+      const target = node ?? treeView.selection[0];
+      if (!target || target.kind === 'folder') {
+        vscode.window.showInformationMessage('Select a test, suite, or executable in the GTest view.');
+        return;
+      }
+      const fullNames = treeProvider.getTestFullNamesUnder(target);
+      const extraFlags = [ALSO_RUN_DISABLED_FLAG];
+      rememberLastRun([{ folder: target.folder, executable: target.executable, fullNames }], extraFlags);
+      await runTestsWithNames(context, target.folder, target.executable, fullNames, { extraFlags });
+    })
+  );
+
+  // Command: Run with coverage (the clicked or selected node, through the test controller's coverage profile)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.runWithCoverage', async (node?: GTestTreeNode) => {
+      logInfo('Command: runWithCoverage invoked');
+      const target = node ?? treeView.selection[0];
+      if (!target) {
+        vscode.window.showInformationMessage('Select a test, suite, executable, or folder in the GTest view.');
+        return;
+      }
+      await testController.runNodeWithCoverage(target);
+    })
+  );
+
+  // Command: Show test output (for selected test in tree) — opens Output panel (GTest Test Output channel) in bottom panel
   context.subscriptions.push(
     vscode.commands.registerCommand('gtest-plugin.showTestOutput', () => {
       logInfo('Command: showTestOutput invoked');
@@ -157,7 +269,170 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
       logInfo(`Showing test output for: ${sel.executable} ${sel.fullName}`);
-      showTestOutputFor(sel.executable, sel.fullName);
+      showTestOutputFor(sel.folder, sel.executable, sel.fullName);
+    })
+  );
+
+  // Command: Run all tests in the workspace (build every test executable once, run them concurrently)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.runAllTests', async () => {
+      logInfo('Command: runAllTests invoked');
+      const targets = targetsOf(treeProvider.getRoots(), treeProvider);
+      if (targets.length === 0) {
+        vscode.window.showInformationMessage('No tests found. Rescan tests first.');
+        return;
+      }
+      rememberLastRun(targets);
+      showRunSummary(await runAllTests(context, targets));
+    })
+  );
+
+  // Command: Rerun failed tests of the whole workspace, or of one executable or folder (context menu argument)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.rerunFailedTests', async (node?: GTestTreeNode) => {
+      logInfo('Command: rerunFailedTests invoked');
+      const roots = !node ? treeProvider.getRoots() : node.kind === 'folder' ? node.children : [node];
+      const failed = failedTestsOf(targetsOf(roots, treeProvider));
+      if (failed.length === 0) {
+        vscode.window.showInformationMessage('No failed tests to rerun.');
+        return;
+      }
+      rememberLastRun(failed);
+      if (node?.kind === 'executable') {
+        await runTestsWithNames(context, node.folder, node.executable, failed[0].fullNames);
+      } else {
+        showRunSummary(await runAllTests(context, failed));
+      }
+    })
+  );
+
+  // Command: Rerun last run (same executables, filter and flags as the previous run started by the user)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.rerunLastRun', async () => {
+      logInfo('Command: rerunLastRun invoked');
+      await rerunLastRun(context);
+    })
+  );
+
+  // Command: Group tests by (view title switcher for gtest-plugin.treeGrouping; the tree regroups on change)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.selectTreeGrouping', async () => {
+      logInfo('Command: selectTreeGrouping invoked');
+      const current = getTreeGrouping();
+      const options: Array<vscode.QuickPickItem & { grouping: TreeGrouping }> = [
+        { grouping: 'suite', label: 'Suite', detail: 'Executable → Suite → Test' },
+        { grouping: 'file', label: 'Source File', detail: 'Executable → File → Suite → Test' },
+        { grouping: 'directory', label: 'Directory', detail: 'Executable → Directories → File → Suite → Test' },
+        { grouping: 'flat', label: 'Flat', detail: 'Executable → Suite.Test' }
+      ];
+      const picked = await vscode.window.showQuickPick(
+        options.map((o) => ({ ...o, description: o.grouping === current ? 'current' : undefined })),
+        { title: 'Group GTest Tests By' }
+      );
+      if (picked && picked.grouping !== current) {
+        await setTreeGrouping(picked.grouping);
+      }
+    })
+  );
+
+  // Filter the tree by name / file (GTest wildcards) and status; the view message shows the active filter
+  const applyFilter = (filter: TreeFilter) => {
+    treeProvider.setFilter(filter);
+    const active = isFilterActive(filter);
+    treeView.message = active ? `Filter: ${describeFilter(filter)}` : undefined;
+    vscode.commands.executeCommand('setContext', 'gtest-plugin.filterActive', active);
+    logInfo(active ? `Tree filter: ${describeFilter(filter)}` : 'Tree filter cleared');
+  };
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.filterTests', async () => {
+      logInfo('Command: filterTests invoked');
+      const filter = await pickFilter(treeProvider.getFilter());
+      if (filter) {
+        applyFilter(filter);
+      }
+    }),
+    vscode.commands.registerCommand('gtest-plugin.clearFilter', () => applyFilter(EMPTY_FILTER))
+  );
+
+  // Command: Run visible tests (exactly the tests the current filter shows)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.runVisibleTests', async () => {
+      logInfo('Command: runVisibleTests invoked');
+      const targets = treeProvider
+        .getRoots()
+        .map((root) => ({
+          folder: root.folder,
+          executable: root.executable,
+          fullNames: treeProvider.getVisibleTestFullNamesUnder(root)
+        }))
+        .filter((t) => t.fullNames.length > 0);
+      if (targets.length === 0) {
+        vscode.window.showInformationMessage('No tests match the current filter.');
+        return;
+      }
+      rememberLastRun(targets);
+      showRunSummary(await runAllTests(context, targets));
+    })
+  );
+
+  // Command: Cancel all running tests (kills the test processes)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.cancelTests', () => {
+      logInfo('Command: cancelTests invoked');
+      const count = cancelRunningTests();
+      if (count === 0) {
+        vscode.window.showInformationMessage('No GTest run in progress.');
+      }
+    })
+  );
+
+  // Command: Show flaky tests (focuses the Flaky Tests view)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gtest-plugin.showFlakyTests', async () => {
+      logInfo('Command: showFlakyTests invoked');
+      await vscode.commands.executeCommand('GTestFlaky.focus');
+    })
+  );
+
+  // Command: Stress test (rerun one test with --gtest_repeat=N and report its failure rate)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'gtest-plugin.stressTest',
+      async (element?: { folder: vscode.WorkspaceFolder; executable: string; fullName?: string }) => {
+        logInfo('Command: stressTest invoked');
+        // From a context menu the clicked item is passed; from the palette use the tree selection
+        const target = element ?? treeView.selection[0];
+        if (!target?.fullName) {
+          vscode.window.showInformationMessage('Select a test in the GTest view to stress test.');
+          return;
+        }
+        const input = await vscode.window.showInputBox({
+          prompt: `Number of repetitions for ${target.fullName}`,
+          value: '100',
+          validateInput: (v) => (/^[1-9]\d*$/.test(v.trim()) ? undefined : 'Enter a positive number')
+        });
+        if (!input) {
+          return;
+        }
+        await stressTest(context, target.folder, target.executable, target.fullName, Number(input.trim()));
+      }
+    )
+  );
+
+  // Watch mode: rebuild and rerun affected tests on save (all executables, or watched executables / suites)
+  const watchMode = new WatchMode(context, treeProvider);
+  context.subscriptions.push(
+    watchMode,
+    vscode.commands.registerCommand('gtest-plugin.enableWatchMode', () => watchMode.setEnabled(true)),
+    vscode.commands.registerCommand('gtest-plugin.disableWatchMode', () => watchMode.setEnabled(false)),
+    vscode.commands.registerCommand('gtest-plugin.toggleWatch', (node?: GTestTreeNode) => {
+      const target = node ?? treeView.selection[0];
+      if (!target || target.kind === 'test' || target.kind === 'folder') {
+        vscode.window.showInformationMessage('Select an executable or suite in the GTest view to watch.');
+        return;
+      }
+      watchMode.toggleNode(target);
+      treeProvider.redraw();
     })
   );
 
@@ -171,6 +446,7 @@ export function activate(context: vscode.ExtensionContext) {
         fullName: string
       ) => {
         logInfo(`CodeLens: run single test: ${executable} ${fullName}`);
+        rememberLastRun([{ folder, executable, fullNames: [fullName] }]);
         await runTestsWithNames(context, folder, executable, [fullName]);
         codeLensProvider.refresh();
       }
@@ -190,3 +466,11 @@ export function activate(context: vscode.ExtensionContext) {
   logInfo('CodeLens run/debug commands registered');
 }
 
+
+/**
+ * Deactivate the extension: kill the test processes of runs still in progress. They run in their
+ * own process groups, so they would outlive a closed window or a restarted extension host.
+ */
+export function deactivate(): void {
+  cancelRunningTests();
+}
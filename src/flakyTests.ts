@@ -0,0 +1,227 @@
+/**
+ * Flaky test detection from the run history in testStore: a test that flips between passed and
+ * failed while the executable did not change (same binary mtime) is flaky.
+ * Provides the "Flaky Tests" view and the stress test (--gtest_repeat) with its failure rate.
+ */
+
+import * as vscode from 'vscode';
+import { testStore, testKey, VIEW_REFRESH_DELAY_MS, TestResult, TestRunRecord, TestStatus } from './testStore';
+import { runTestsWithNames, rememberLastRun } from './testRunner';
+import { GTestLineParser } from './gtestOutputParser';
+import { compilePattern } from './gtestFilter';
+import { TestLocator } from './testDiagnostics';
+import { logInfo } from './log';
+
+/** How often a test flipped between passed and failed on the same build. */
+export interface Flakiness {
+  /** Status changes between consecutive runs of the same binary. */
+  flips: number;
+  /** Consecutive run pairs that could be compared (same binary, both passed/failed). */
+  comparedRuns: number;
+  /** Runs in the history that passed or failed. */
+  runs: number;
+  failures: number;
+}
+
+/** A flaky test as listed in the Flaky Tests view. */
+export interface FlakyTest {
+  folder: vscode.WorkspaceFolder;
+  executable: string;
+  fullName: string;
+  flakiness: Flakiness;
+}
+
+/** Only pass/fail outcomes say anything about flakiness (skips, timeouts and cancels are ignored). */
+function isOutcome(r: TestRunRecord): boolean {
+  return r.status === 'passed' || r.status === 'failed';
+}
+
+/**
+ * Count pass/fail flips between consecutive runs of the same binary.
+ * Runs without a recorded binary mtime (older history) are not compared, so a rebuild that
+ * fixes or breaks a test is never counted as a flip.
+ */
+export function flakinessOf(history: TestRunRecord[] | undefined): Flakiness {
+  const outcomes = (history ?? []).filter(isOutcome);
+  let flips = 0;
+  let comparedRuns = 0;
+  for (let i = 1; i < outcomes.length; i++) {
+    const prev = outcomes[i - 1];
+    const cur = outcomes[i];
+    if (prev.binaryMtime === undefined || prev.binaryMtime !== cur.binaryMtime) {
+      continue;
+    }
+    comparedRuns++;
+    if (prev.status !== cur.status) {
+      flips++;
+    }
+  }
+  return {
+    flips,
+    comparedRuns,
+    runs: outcomes.length,
+    failures: outcomes.filter((r) => r.status === 'failed').length
+  };
+}
+
+/** True if the test flipped between passed and failed at least once without a rebuild. */
+export function isFlaky(result: TestResult | undefined): boolean {
+  return flakinessOf(result?.history).flips > 0;
+}
+
+/** Tooltip line for a flaky test, e.g. "Flaky: 3 pass/fail flips in 10 runs of the same build". */
+export function describeFlakiness(f: Flakiness): string {
+  return `Flaky: ${f.flips} pass/fail flip${f.flips === 1 ? '' : 's'} in ${f.runs} runs (${f.failures} failed) without a rebuild`;
+}
+
+/** All flaky tests in testStore, most flips first. */
+export function getFlakyTests(): FlakyTest[] {
+  return testStore
+    .getAllResults()
+    .map(({ folder, executable, fullName, result }) => ({
+      folder,
+      executable,
+      fullName,
+      flakiness: flakinessOf(result.history)
+    }))
+    .filter((t) => t.flakiness.flips > 0)
+    .sort((a, b) => b.flakiness.flips - a.flakiness.flips || a.fullName.localeCompare(b.fullName));
+}
+
+/** Tree data for the "Flaky Tests" view: one flat entry per flaky test. */
+export class FlakyTestsProvider implements vscode.TreeDataProvider<FlakyTest>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private subscription: vscode.Disposable;
+
+  constructor(private locate: TestLocator) {
+    this.subscription = testStore.onChangedThrottled(VIEW_REFRESH_DELAY_MS, () =>
+      this._onDidChangeTreeData.fire()
+    );
+  }
+
+  getChildren(element?: FlakyTest): FlakyTest[] {
+    return element ? [] : getFlakyTests();
+  }
+
+  getTreeItem(element: FlakyTest): vscode.TreeItem {
+    const f = element.flakiness;
+    const item = new vscode.TreeItem(element.fullName, vscode.TreeItemCollapsibleState.None);
+    item.id = testKey(element.folder, element.executable, element.fullName);
+    const where = (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+      ? `${element.folder.name} / ${element.executable}`
+      : element.executable;
+    item.description = `${where} · ${f.flips} flips / ${f.runs} runs`;
+    item.tooltip = `${element.fullName}\n${describeFlakiness(f)}`;
+    item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+    item.contextValue = 'gtest-flaky-test';
+    const location = this.locate(element.folder, element.executable, element.fullName);
+    if (location) {
+      const line = Math.max(location.line - 1, 0);
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open',
+        arguments: [
+          vscode.Uri.file(location.filePath),
+          { selection: new vscode.Range(line, 0, line, 0) }
+        ]
+      };
+    }
+    return item;
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+/** Result of a stress test: every finished iteration of every matching instance. */
+export interface StressResult {
+  runs: number;
+  failures: number;
+}
+
+/**
+ * Outcomes of every finished iteration in the stored output of a --gtest_repeat run, oldest first,
+ * per test instance. Wildcard names (TEST_P, TYPED_TEST) collect each matching instance.
+ */
+function iterationOutcomes(fullName: string, output: string): Map<string, TestStatus[]> {
+  const outcomes = new Map<string, TestStatus[]>();
+  const matches = compilePattern(fullName);
+  const parser = new GTestLineParser({
+    onTestFinished: (name, result) => {
+      if (!matches(name)) {
+        return;
+      }
+      const status: TestStatus = result === 'skipped' ? 'ignored' : result;
+      outcomes.set(name, [...(outcomes.get(name) ?? []), status]);
+    }
+  });
+  parser.feed(output);
+  parser.end();
+  return outcomes;
+}
+
+/**
+ * Put the iterations before the last one into each instance's history: the GTest report, from
+ * which the run was recorded, only holds the last iteration. They share its build and end time.
+ */
+function recordEarlierIterations(
+  folder: vscode.WorkspaceFolder,
+  executable: string,
+  outcomes: Map<string, TestStatus[]>
+): void {
+  for (const [name, statuses] of outcomes) {
+    const latest = testStore.getResult(folder, executable, name)?.history?.slice(-1)[0];
+    if (!latest) {
+      continue;
+    }
+    const earlier = statuses
+      .slice(0, -1)
+      .map((status): TestRunRecord => ({ status, time: latest.time, binaryMtime: latest.binaryMtime }));
+    testStore.addEarlierRuns(folder, executable, name, earlier);
+  }
+}
+
+/** Count finished iterations (skipped ones do not count). */
+function countIterations(outcomes: Map<string, TestStatus[]>): StressResult {
+  const statuses = Array.from(outcomes.values())
+    .flat()
+    .filter((s) => s !== 'ignored');
+  return { runs: statuses.length, failures: statuses.filter((s) => s === 'failed').length };
+}
+
+/**
+ * Run one test repeatedly (--gtest_repeat=N) and report its failure rate.
+ * The run goes through the normal runner, so it is built, cancellable and recorded like any run;
+ * every iteration is added to the history, so failures of any of them count towards flakiness.
+ * @returns Counted iterations, or undefined if the run did not start (e.g. build failed)
+ */
+export async function stressTest(
+  context: vscode.ExtensionContext,
+  folder: vscode.WorkspaceFolder,
+  executable: string,
+  fullName: string,
+  repeat: number
+): Promise<StressResult | undefined> {
+  logInfo(`Stress test: ${executable} ${fullName} x${repeat}`);
+  const extraFlags = [`--gtest_repeat=${repeat}`];
+  rememberLastRun([{ folder, executable, fullNames: [fullName] }], extraFlags);
+  const results = await runTestsWithNames(context, folder, executable, [fullName], { extraFlags });
+  if (!results) {
+    return undefined;
+  }
+  const outcomes = iterationOutcomes(fullName, testStore.getOutput(folder, executable, fullName));
+  recordEarlierIterations(folder, executable, outcomes);
+  const counted = countIterations(outcomes);
+  const rate = counted.runs > 0 ? ((counted.failures / counted.runs) * 100).toFixed(1) : '0.0';
+  const text = `GTest stress test ${fullName}: ${counted.failures} of ${counted.runs} runs failed (${rate}%)`;
+  logInfo(text);
+  if (counted.failures > 0) {
+    vscode.window.showWarningMessage(text);
+  } else {
+    vscode.window.showInformationMessage(text);
+  }
+  return counted;
+}
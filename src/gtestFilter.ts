@@ -0,0 +1,68 @@
+/**
+ * GTest filter helpers: build --gtest_filter values and match test names against GTest wildcards.
+ * Scanned TEST_P / TYPED_TEST names are patterns (e.g. *\/Suite.Test/*), so results reported
+ * for concrete instances are mapped back with the same matching GTest uses.
+ */
+
+/** Build GTest filter from test full names (e.g. Suite1.Test1:Suite2.Test2). */
+export function buildFilter(fullNames: string[]): string {
+  if (fullNames.length === 0) {
+    return '*';
+  }
+  return fullNames.join(':');
+}
+
+/** True if the name contains GTest wildcards ('*' or '?'). */
+export function isPattern(name: string): boolean {
+  return /[*?]/.test(name);
+}
+
+/**
+ * Compile one GTest pattern ('*' = any string, '?' = any single character) into a matcher, for
+ * matching many names against the same pattern.
+ */
+export function compilePattern(pattern: string): (name: string) => boolean {
+  if (!isPattern(pattern)) {
+    return (name) => name === pattern;
+  }
+  const escaped = pattern
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\/]/g, '\\$&')))
+    .join('');
+  const regex = new RegExp(`^${escaped}$`);
+  return (name) => regex.test(name);
+}
+
+/** Match a test name against one GTest pattern (see compilePattern). */
+export function matchesGTestPattern(name: string, pattern: string): boolean {
+  return compilePattern(pattern)(name);
+}
+
+/** GTest's own filter for disabled tests, matched against the suite name and the test name. */
+const DISABLED_PATTERNS = ['DISABLED_*', '*/DISABLED_*'].map(compilePattern);
+
+/** Flag that makes GTest run DISABLED_ tests too. */
+export const ALSO_RUN_DISABLED_FLAG = '--gtest_also_run_disabled_tests';
+
+/**
+ * True if GTest skips the test unless --gtest_also_run_disabled_tests is given: its suite
+ * (e.g. DISABLED_Suite, Inst/DISABLED_Suite) or its name starts with DISABLED_.
+ */
+export function isDisabledName(fullName: string): boolean {
+  // Suite names contain no '.', test names may (e.g. after the instance index)
+  const dot = fullName.indexOf('.');
+  const parts = dot < 0 ? [fullName] : [fullName.slice(0, dot), fullName.slice(dot + 1)];
+  return parts.some((part) => DISABLED_PATTERNS.some((matches) => matches(part)));
+}
+
+/** Reported test names (e.g. Inst/Suite.Test/0) that a full name or pattern covers. */
+export function namesMatching(fullName: string, reported: Iterable<string>): string[] {
+  const matches = compilePattern(fullName);
+  const out: string[] = [];
+  for (const name of reported) {
+    if (matches(name)) {
+      out.push(name);
+    }
+  }
+  return out;
+}
@@ -7,8 +7,11 @@ import * as vscode from 'vscode';
 import { testStore } from './testStore';
 
 const CHANNEL_NAME = 'GTest';
+/** Separate channel for "Show test output", so it never clears the log of a run in progress. */
+const TEST_OUTPUT_CHANNEL_NAME = 'GTest Test Output';
 
 let channel: vscode.OutputChannel | undefined;
+let testOutputChannel: vscode.OutputChannel | undefined;
 
 function getChannel(): vscode.OutputChannel {
   if (!channel) {
@@ -17,30 +20,87 @@ function getChannel(): vscode.OutputChannel {
   return channel;
 }
 
+/** Section of the GTest channel written by one test run. */
+export interface TestRunOutput {
+  /** Append a chunk of test output (may be a partial line). */
+  append(chunk: string): void;
+  /** Finish the run: terminate the last line and note the exit code. */
+  end(exitCode: number): void;
+}
+
+/** The run that streams into the channel while it runs (the first one started while none was). */
+let streamingRun: TestRunOutput | undefined;
+/** Whole sections of runs that finished while another run was streaming; written after it. */
+const finishedSections: string[] = [];
+
 /**
- * Append test run output to the GTest channel and reveal the Output panel.
- * Call this after running tests so logs appear in the bottom panel.
+ * Start a test run in the GTest channel: header line and reveal the Output panel.
+ * If no other run is in progress, the output streams into the channel as it arrives. Runs started
+ * meanwhile (Run All runs several executables at once) are kept whole and appended when they end,
+ * so the output of different executables never interleaves.
  */
-export function appendTestRun(
-  executable: string,
-  fullNames: string[],
-  output: string
-): void {
+export function beginTestRun(executable: string, fullNames: string[]): TestRunOutput {
   const ch = getChannel();
-  const header = `\n========== ${executable} :: ${fullNames.join(', ')} ==========\n`;
-  ch.appendLine(header);
-  ch.append(output);
-  if (!output.endsWith('\n')) ch.appendLine('');
+  const live = !streamingRun;
+  let buffered = '';
+  let atLineStart = true;
+  const write = (text: string) => {
+    if (text === '') {
+      return;
+    }
+    if (live) {
+      ch.append(text);
+    } else {
+      buffered += text;
+    }
+    atLineStart = text.endsWith('\n');
+  };
+  const run: TestRunOutput = {
+    append: write,
+    end: (exitCode) => {
+      if (!atLineStart) {
+        write('\n');
+      }
+      write(`---------- exit code ${exitCode} ----------\n`);
+      if (!live) {
+        if (streamingRun) {
+          finishedSections.push(buffered);
+        } else {
+          ch.append(buffered);
+        }
+        return;
+      }
+      streamingRun = undefined;
+      finishedSections.splice(0).forEach((section) => ch.append(section));
+    }
+  };
+  if (live) {
+    streamingRun = run;
+  }
+  write(`\n========== ${executable} :: ${fullNames.join(', ')} ==========\n\n`);
   ch.show(true);
+  return run;
+}
+
+function getTestOutputChannel(): vscode.OutputChannel {
+  if (!testOutputChannel) {
+    testOutputChannel = vscode.window.createOutputChannel(TEST_OUTPUT_CHANNEL_NAME);
+  }
+  return testOutputChannel;
 }
 
 /**
- * Show a single test's last run output in the GTest channel and reveal the Output panel.
- * Call this when user clicks "Show test output" on a test.
+ * Show a single test's last run output in the GTest Test Output channel and reveal the Output panel.
+ * Call this when user clicks "Show test output" on a test. Only that test's section of the run
+ * (plus global setup/teardown text) is shown.
  */
-export function showTestOutputFor(executable: string, fullName: string): void {
-  const output = testStore.getOutput(executable, fullName);
-  const ch = getChannel();
+export function showTestOutputFor(
+  folder: vscode.WorkspaceFolder,
+  executable: string,
+  fullName: string
+): void {
+  const output = testStore.getOutput(folder, executable, fullName);
+  const ch = getTestOutputChannel();
   ch.clear();
   const header = `========== ${executable} :: ${fullName} (last run) ==========\n`;
   ch.appendLine(header);
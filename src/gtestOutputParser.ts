@@ -0,0 +1,136 @@
+/**
+ * Splits GTest console output into per-test sections using the [ RUN ] / [ OK ] / [ FAILED ] /
+ * [ SKIPPED ] markers. Everything outside a test section (environment setup, suite
+ * setup/teardown, summary) is kept as global text. Also parses the same markers incrementally
+ * while a run streams its output.
+ */
+
+import { namesMatching } from './gtestFilter';
+
+/** Console output split by test. */
+export interface SplitOutput {
+  /** Text outside any test section (setup, teardown, summary). */
+  global: string;
+  /** Reported test name (e.g. Suite.Test, Inst/Suite.Test/0) -> its section, markers included. */
+  perTest: Map<string, string>;
+}
+
+const RUN_MARKER = /^\[\s*RUN\s*\]\s+(\S+)/;
+const END_MARKER = /^\[\s*(OK|FAILED|SKIPPED)\s*\]\s+([^\s,]+)/;
+const TOTAL_MARKER = /^\[=+\]\s+Running\s+(\d+)\s+tests?/;
+
+/**
+ * Split output at test markers. Repeated runs of the same test (--gtest_repeat) are appended
+ * to the same section.
+ */
+export function splitOutputByTest(output: string): SplitOutput {
+  const perTest = new Map<string, string>();
+  const global: string[] = [];
+  let current: string | undefined;
+  let section: string[] = [];
+  const close = () => {
+    if (current === undefined) {
+      return;
+    }
+    perTest.set(current, (perTest.get(current) ?? '') + section.join('\n') + '\n');
+    current = undefined;
+    section = [];
+  };
+  for (const line of output.split(/\r?\n/)) {
+    const run = line.match(RUN_MARKER);
+    if (run) {
+      close();
+      current = run[1];
+      section.push(line);
+      continue;
+    }
+    if (current !== undefined) {
+      section.push(line);
+      const end = line.match(END_MARKER);
+      if (end && end[2] === current) {
+        close();
+      }
+      continue;
+    }
+    global.push(line);
+  }
+  // A test that never printed its end marker (crash, timeout) keeps what it printed
+  close();
+  return { global: global.join('\n'), perTest };
+}
+
+/**
+ * Output to store for one requested test: its own section(s) followed by the global text.
+ * Wildcard names (TEST_P, TYPED_TEST) collect the sections of all matching instances.
+ */
+export function outputForTest(fullName: string, split: SplitOutput): string {
+  const sections = namesMatching(fullName, split.perTest.keys()).map((n) => split.perTest.get(n) as string);
+  const own = sections.length > 0 ? sections.join('') : `(No output section for ${fullName} in this run.)\n`;
+  const global = split.global.trim();
+  return global ? `${own}\n---------- global setup / teardown ----------\n${global}\n` : own;
+}
+
+/** Callbacks for streamed GTest output, called as soon as a marker line arrives. */
+export interface GTestLineHandlers {
+  /** "[==========] Running N tests from M test suites." */
+  onTotal?(total: number): void;
+  /** "[ RUN      ] Name" */
+  onTestStarted?(name: string): void;
+  /** "[       OK ] Name", "[  FAILED  ] Name", "[  SKIPPED ] Name" (while the test is running). */
+  onTestFinished?(name: string, result: 'passed' | 'failed' | 'skipped'): void;
+}
+
+/**
+ * Incremental parser for GTest console output: feed chunks as they arrive, complete lines are
+ * matched against the markers. Only end markers of the running test count, so the summary
+ * "[  FAILED  ] Name" lines at the end are not reported twice.
+ */
+export class GTestLineParser {
+  private buffer = '';
+  private running: string | undefined;
+
+  constructor(private handlers: GTestLineHandlers) {}
+
+  /** Feed a chunk of output (may contain partial lines). */
+  feed(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      this.parseLine(line);
+    }
+  }
+
+  /** Flush the last partial line (call when the process exits). */
+  end(): void {
+    if (this.buffer) {
+      this.parseLine(this.buffer);
+    }
+    this.buffer = '';
+  }
+
+  /** Name of the test that printed [ RUN ] but no end marker yet. */
+  get currentTest(): string | undefined {
+    return this.running;
+  }
+
+  private parseLine(line: string): void {
+    const total = line.match(TOTAL_MARKER);
+    if (total) {
+      this.handlers.onTotal?.(Number(total[1]));
+      return;
+    }
+    const run = line.match(RUN_MARKER);
+    if (run) {
+      this.running = run[1];
+      this.handlers.onTestStarted?.(run[1]);
+      return;
+    }
+    const end = line.match(END_MARKER);
+    if (end && end[2] === this.running) {
+      this.running = undefined;
+      const result = end[1] === 'OK' ? 'passed' : end[1] === 'FAILED' ? 'failed' : 'skipped';
+      this.handlers.onTestFinished?.(end[2], result);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Structured GTest results: runs write a temporary --gtest_output=json report, parsed here into
+ * per-test status, duration, failures (with file:line), skipped state and timestamp.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TestFailure, TestResultUpdate, TestStatus } from './testStore';
+import { namesMatching } from './gtestFilter';
+
+/** Shape of the GTest JSON report (only the fields we read). */
+interface GTestJsonReport {
+  testsuites?: Array<{
+    name: string;
+    testsuite?: Array<{
+      name: string;
+      status?: string;
+      result?: string;
+      time?: string;
+      timestamp?: string;
+      failures?: Array<{ failure?: string; type?: string }>;
+    }>;
+  }>;
+}
+
+let reportCounter = 0;
+
+/** Path for a new temporary JSON report (unique per run in this process). */
+export function newReportPath(): string {
+  reportCounter++;
+  return path.join(os.tmpdir(), `gtest-plugin-${process.pid}-${Date.now()}-${reportCounter}.json`);
+}
+
+/** True if the user already passes their own --gtest_output flag (then we don't add ours). */
+export function hasOutputFlag(flags: string[]): boolean {
+  return flags.some((f) => f.startsWith('--gtest_output'));
+}
+
+/** Parse GTest's "0.012s" duration into milliseconds. */
+function parseDuration(time: string | undefined): number | undefined {
+  if (!time) {
+    return undefined;
+  }
+  const secs = parseFloat(time);
+  return isNaN(secs) ? undefined : Math.round(secs * 1000);
+}
+
+/**
+ * Split a GTest failure text into location and message.
+ * The first line is "path/to/file.cpp:42" (or "file.cpp(42)" with MSVC), the rest is the message.
+ */
+export function parseFailure(text: string): TestFailure {
+  const nl = text.indexOf('\n');
+  const first = nl < 0 ? text : text.slice(0, nl);
+  const m = first.match(/^(.+?)(?::(\d+)|\((\d+)\))$/);
+  if (!m) {
+    return { message: text };
+  }
+  return {
+    file: m[1],
+    line: Number(m[2] ?? m[3]),
+    message: nl < 0 ? '' : text.slice(nl + 1)
+  };
+}
+
+/** Map one test entry of the report to our status. */
+function statusOf(status: string | undefined, result: string | undefined, failed: boolean): TestStatus {
+  if (failed) {
+    return 'failed';
+  }
+  if (status === 'NOTRUN' || result === 'SKIPPED' || result === 'SUPPRESSED') {
+    return 'ignored';
+  }
+  return 'passed';
+}
+
+/** Parse the JSON report text into one result per reported test (names as GTest reports them). */
+export function parseGTestJsonReport(json: string): TestResultUpdate[] {
+  const report = JSON.parse(json) as GTestJsonReport;
+  const out: TestResultUpdate[] = [];
+  for (const suite of report.testsuites ?? []) {
+    for (const t of suite.testsuite ?? []) {
+      const failures = (t.failures ?? [])
+        .filter((f) => f.failure)
+        .map((f) => parseFailure(f.failure as string));
+      const timestamp = t.timestamp ? Date.parse(t.timestamp) : NaN;
+      out.push({
+        fullName: `${suite.name}.${t.name}`,
+        status: statusOf(t.status, t.result, failures.length > 0),
+        durationMs: parseDuration(t.time),
+        failures,
+        timestamp: isNaN(timestamp) ? undefined : timestamp
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Read and delete a report written by a run.
+ * @returns Parsed results, or undefined if the file is missing or invalid (e.g. the executable crashed)
+ */
+export function readReport(reportPath: string): TestResultUpdate[] | undefined {
+  try {
+    const text = fs.readFileSync(reportPath, 'utf-8');
+    return parseGTestJsonReport(text);
+  } catch {
+    return undefined;
+  } finally {
+    fs.rm(reportPath, { force: true }, () => undefined);
+  }
+}
+
+/**
+ * Results for the requested full names from the reported instances.
+ * Wildcard names (TEST_P, TYPED_TEST) combine their instances: failed if any failed,
+ * ignored if all were skipped, durations summed and failures concatenated.
+ */
+export function resultsForNames(
+  fullNames: string[],
+  reported: TestResultUpdate[]
+): TestResultUpdate[] {
+  const byName = new Map(reported.map((r) => [r.fullName, r]));
+  return fullNames.map((fullName) => {
+    const instances = namesMatching(fullName, byName.keys()).map((n) => byName.get(n) as TestResultUpdate);
+    if (instances.length === 0) {
+      return { fullName, status: 'none' as TestStatus };
+    }
+    let status: TestStatus = 'ignored';
+    if (instances.some((i) => i.status === 'failed')) {
+      status = 'failed';
+    } else if (instances.some((i) => i.status === 'passed')) {
+      status = 'passed';
+    }
+    const timestamps = instances.map((i) => i.timestamp).filter((t): t is number => t !== undefined);
+    return {
+      fullName,
+      status,
+      durationMs: instances.reduce((sum, i) => sum + (i.durationMs ?? 0), 0),
+      failures: instances.flatMap((i) => i.failures ?? []),
+      timestamp: timestamps.length > 0 ? Math.min(...timestamps) : undefined
+    };
+  });
+}
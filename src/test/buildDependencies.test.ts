@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseDepfile } from '../buildDependencies';
+
+const baseDir = path.resolve('/build');
+
+/** Expected prerequisite: absolute paths as written, relative ones under baseDir. */
+function dep(p: string): string {
+	return path.isAbsolute(p) ? p : path.resolve(baseDir, p);
+}
+
+suite('buildDependencies', () => {
+	suite('parseDepfile', () => {
+		const cases: Array<[string, string, string[]]> = [
+			['empty file', '', []],
+			['single line', 'a.o: /src/a.cpp /src/a.h\n', [dep('/src/a.cpp'), dep('/src/a.h')]],
+			[
+				'line continuations',
+				'a.o: /src/a.cpp \\\n  /src/a.h \\\r\n  /src/b.h\n',
+				[dep('/src/a.cpp'), dep('/src/a.h'), dep('/src/b.h')]
+			],
+			['escaped spaces', 'a.o: /src/my\\ dir/a.cpp\n', [dep('/src/my dir/a.cpp')]],
+			[
+				'several rules',
+				'a.o: /src/a.cpp\nb.o: /src/b.cpp\n',
+				[dep('/src/a.cpp'), dep('/src/b.cpp')]
+			],
+			['relative paths', 'a.o: ../src/a.cpp\n', [dep('../src/a.cpp')]],
+			['drive letter colons', 'C:/build/a.o: C:/src/a.cpp\n', [dep('C:/src/a.cpp')]],
+			['comments skipped', '# generated\na.o: /src/a.cpp\n', [dep('/src/a.cpp')]],
+			['rule without prerequisites', 'a.o:\n', []]
+		];
+		for (const [name, text, expected] of cases) {
+			test(name, () => {
+				assert.deepStrictEqual(parseDepfile(text, baseDir), expected);
+			});
+		}
+	});
+});
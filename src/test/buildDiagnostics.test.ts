@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseCompilerOutput, CompilerMessage } from '../buildDiagnostics';
+
+const baseDir = path.resolve('/build');
+
+suite('buildDiagnostics', () => {
+	suite('parseCompilerOutput', () => {
+		const cases: Array<[string, string, CompilerMessage[]]> = [
+			[
+				'error with column',
+				'/src/a.cpp:12:5: error: expected \';\' before \'}\' token',
+				[{ file: '/src/a.cpp', line: 12, column: 5, severity: 'error', message: 'expected \';\' before \'}\' token' }]
+			],
+			[
+				'warning',
+				'/src/a.cpp:3:1: warning: unused variable \'x\' [-Wunused-variable]',
+				[{ file: '/src/a.cpp', line: 3, column: 1, severity: 'warning', message: 'unused variable \'x\' [-Wunused-variable]' }]
+			],
+			[
+				'fatal error counts as error',
+				'/src/a.cpp:1:10: fatal error: missing.h: No such file or directory',
+				[{ file: '/src/a.cpp', line: 1, column: 10, severity: 'error', message: 'missing.h: No such file or directory' }]
+			],
+			[
+				'no column',
+				'/src/a.cpp:7: error: boom',
+				[{ file: '/src/a.cpp', line: 7, column: undefined, severity: 'error', message: 'boom' }]
+			],
+			[
+				'relative path resolved against the build directory',
+				'../src/a.cpp:2:3: error: boom',
+				[{ file: path.resolve(baseDir, '../src/a.cpp'), line: 2, column: 3, severity: 'error', message: 'boom' }]
+			],
+			[
+				'notes and include chains skipped',
+				'In file included from /src/a.cpp:1:\n/src/a.h:4:2: note: declared here\n[2/5] Building CXX object a.o',
+				[]
+			],
+			[
+				'several messages with CRLF',
+				'/src/a.cpp:1:1: error: one\r\n/src/b.cpp:2:2: warning: two\r\n',
+				[
+					{ file: '/src/a.cpp', line: 1, column: 1, severity: 'error', message: 'one' },
+					{ file: '/src/b.cpp', line: 2, column: 2, severity: 'warning', message: 'two' }
+				]
+			]
+		];
+		for (const [name, output, expected] of cases) {
+			test(name, () => {
+				assert.deepStrictEqual(parseCompilerOutput(output, baseDir), expected);
+			});
+		}
+	});
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseLcov, parseGcovrJson, FileLineCoverage } from '../coverage';
+
+const rootDir = path.resolve('/src');
+
+/** Coverage as plain arrays, so deepStrictEqual shows readable differences. */
+function plain(files: FileLineCoverage[]): Array<[string, Array<[number, number]>]> {
+	return files.map((f) => [f.filePath, Array.from(f.lines)]);
+}
+
+suite('coverage', () => {
+	suite('parseLcov', () => {
+		const cases: Array<[string, string, Array<[string, Array<[number, number]>]>]> = [
+			['empty', '', []],
+			[
+				'one record',
+				'SF:/src/a.cpp\nDA:1,3\nDA:2,0\nend_of_record\n',
+				[['/src/a.cpp', [[1, 3], [2, 0]]]]
+			],
+			[
+				'relative file and CRLF',
+				'SF:a.cpp\r\nDA:4,1\r\nend_of_record\r\n',
+				[[path.resolve(rootDir, 'a.cpp'), [[4, 1]]]]
+			],
+			[
+				'counts of the same file are added',
+				'SF:/src/a.h\nDA:5,1\nend_of_record\nSF:/src/a.h\nDA:5,2\nDA:6,0\nend_of_record\n',
+				[['/src/a.h', [[5, 3], [6, 0]]]]
+			],
+			[
+				'lines outside a record ignored',
+				'DA:1,1\nSF:/src/a.cpp\nFN:1,main\nDA:1,1\nend_of_record\nDA:9,9\n',
+				[['/src/a.cpp', [[1, 1]]]]
+			]
+		];
+		for (const [name, text, expected] of cases) {
+			test(name, () => {
+				assert.deepStrictEqual(plain(parseLcov(text, rootDir)), expected);
+			});
+		}
+	});
+
+	suite('parseGcovrJson', () => {
+		const cases: Array<[string, object, Array<[string, Array<[number, number]>]>]> = [
+			['no files', {}, []],
+			[
+				'relative to the root',
+				{ files: [{ file: 'a.cpp', lines: [{ line_number: 1, count: 2 }] }] },
+				[[path.resolve(rootDir, 'a.cpp'), [[1, 2]]]]
+			],
+			[
+				'non-code lines skipped',
+				{
+					files: [
+						{
+							file: '/src/a.cpp',
+							lines: [
+								{ line_number: 1, count: 0, 'gcovr/noncode': true },
+								{ line_number: 2, count: 5 }
+							]
+						}
+					]
+				},
+				[['/src/a.cpp', [[2, 5]]]]
+			],
+			[
+				'repeated lines added',
+				{
+					files: [
+						{
+							file: '/src/a.h',
+							lines: [
+								{ line_number: 3, count: 1 },
+								{ line_number: 3, count: 4 }
+							]
+						}
+					]
+				},
+				[['/src/a.h', [[3, 5]]]]
+			],
+			['file without lines', { files: [{ file: '/src/b.cpp' }] }, [['/src/b.cpp', []]]]
+		];
+		for (const [name, report, expected] of cases) {
+			test(name, () => {
+				assert.deepStrictEqual(plain(parseGcovrJson(JSON.stringify(report), rootDir)), expected);
+			});
+		}
+	});
+});
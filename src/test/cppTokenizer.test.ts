@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { tokenize } from '../cppTokenizer';
+
+/** Identifiers of the active code, space separated. */
+function identifiers(source: string): string {
+	return tokenize(source)
+		.filter((t) => t.kind === 'identifier')
+		.map((t) => t.text)
+		.join(' ');
+}
+
+suite('cppTokenizer', () => {
+	const cases: Array<[string, string, string]> = [
+		['line comment', 'a // TEST(x, y)\nb', 'a b'],
+		['block comment over lines', 'a /* TEST(x,\n y) */ b', 'a b'],
+		['string literal', 'a "TEST(x, y)" b', 'a b'],
+		['escaped quote in string', 'a "x\\"TEST(y, z)" b', 'a b'],
+		['char literal', 'a \'"\' b', 'a b'],
+		['raw string', 'a R"x(TEST(y, z) )" )x" b', 'a b'],
+		['#if 0', '#if 0\na\n#endif\nb', 'b'],
+		['#if 0 with trailing comment', '#if 0 // off\na\n#endif\nb', 'b'],
+		['#if 0 / #else', '#if 0\na\n#else\nb\n#endif', 'b'],
+		['#elif after #if 0', '#if 0\na\n#elif 1\nb\n#else\nc\n#endif\nd', 'b d'],
+		['#elif after taken #if 1', '#if 1\na\n#elif 1\nb\n#else\nc\n#endif', 'a'],
+		['nested #if in inactive region', '#if 0\n#if 1\na\n#endif\n#endif\nb', 'b'],
+		['#ifdef of #define and #undef', '#define X\n#ifdef X\na\n#endif\n#undef X\n#ifdef X\nb\n#endif\nc', 'a c'],
+		['unknown condition counts as active', '#ifdef UNKNOWN\na\n#else\nb\n#endif', 'a b'],
+		['line continuation', 'a \\\nb', 'a b'],
+		['directive continued over lines', '#define M(x) \\\n  x\na', 'a']
+	];
+	for (const [name, source, expected] of cases) {
+		test(name, () => {
+			assert.strictEqual(identifiers(source), expected);
+		});
+	}
+
+	test('token positions', () => {
+		assert.deepStrictEqual(tokenize('  foo(12);\n bar'), [
+			{ kind: 'identifier', text: 'foo', line: 0, column: 2, endColumn: 5 },
+			{ kind: 'punct', text: '(', line: 0, column: 5, endColumn: 6 },
+			{ kind: 'number', text: '12', line: 0, column: 6, endColumn: 8 },
+			{ kind: 'punct', text: ')', line: 0, column: 8, endColumn: 9 },
+			{ kind: 'punct', text: ';', line: 0, column: 9, endColumn: 10 },
+			{ kind: 'identifier', text: 'bar', line: 1, column: 1, endColumn: 4 }
+		]);
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { flakinessOf, Flakiness } from '../flakyTests';
+import { TestRunRecord, TestStatus } from '../testStore';
+
+/** History from [status, binaryMtime] pairs, oldest first. */
+function history(...runs: Array<[TestStatus, number | undefined]>): TestRunRecord[] {
+	return runs.map(([status, binaryMtime], i) => ({ status, time: i, binaryMtime }));
+}
+
+suite('flakyTests', () => {
+	suite('flakinessOf', () => {
+		const cases: Array<[string, TestRunRecord[] | undefined, Flakiness]> = [
+			['no history', undefined, { flips: 0, comparedRuns: 0, runs: 0, failures: 0 }],
+			[
+				'stable on one build',
+				history(['passed', 1], ['passed', 1], ['passed', 1]),
+				{ flips: 0, comparedRuns: 2, runs: 3, failures: 0 }
+			],
+			[
+				'flips on the same build',
+				history(['passed', 1], ['failed', 1], ['passed', 1]),
+				{ flips: 2, comparedRuns: 2, runs: 3, failures: 1 }
+			],
+			[
+				'a rebuild that fixes the test is no flip',
+				history(['failed', 1], ['failed', 1], ['passed', 2], ['passed', 2]),
+				{ flips: 0, comparedRuns: 2, runs: 4, failures: 2 }
+			],
+			[
+				'flips counted per build',
+				history(['passed', 1], ['failed', 1], ['failed', 2], ['passed', 2], ['failed', 3]),
+				{ flips: 2, comparedRuns: 2, runs: 5, failures: 3 }
+			],
+			[
+				'runs without a binary mtime are not compared',
+				history(['passed', undefined], ['failed', undefined], ['passed', 1]),
+				{ flips: 0, comparedRuns: 0, runs: 3, failures: 1 }
+			],
+			[
+				'skips, timeouts and cancels are left out',
+				history(['passed', 1], ['ignored', 1], ['timedOut', 1], ['none', 1], ['failed', 1]),
+				{ flips: 1, comparedRuns: 1, runs: 2, failures: 1 }
+			]
+		];
+		for (const [name, runs, expected] of cases) {
+			test(name, () => {
+				assert.deepStrictEqual(flakinessOf(runs), expected);
+			});
+		}
+	});
+});
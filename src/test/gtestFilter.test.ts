@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { buildFilter, matchesGTestPattern, namesMatching, isDisabledName } from '../gtestFilter';
+
+suite('gtestFilter', () => {
+	suite('matchesGTestPattern', () => {
+		const cases: Array<[string, string, boolean]> = [
+			['Suite.Test', 'Suite.Test', true],
+			['Suite.Test', 'Suite.Tes', false],
+			['Suite.Test', 'Suite.*', true],
+			['Suite.Test', '*.Test', true],
+			['Suite.Test', 'Suite.Tes?', true],
+			['Suite.Test', 'Suite.Te?', false],
+			['Inst/Suite.Test/0', '*/Suite.Test/*', true],
+			['Suite.Test', '*/Suite.Test/*', false],
+			['TypedSuite/1.Test', 'TypedSuite/*.Test', true],
+			['Inst/TypedSuite/1.Test', '*/TypedSuite/*.Test', true],
+			// Regex characters in names are literal
+			['SuiteXTest', 'Suite.Test', false],
+			['Suite+.Test', 'Suite+.*', true],
+			['Suite(1).Test', 'Suite(?).Test', true]
+		];
+		for (const [name, pattern, expected] of cases) {
+			test(`${name} ~ ${pattern}`, () => {
+				assert.strictEqual(matchesGTestPattern(name, pattern), expected);
+			});
+		}
+	});
+
+	suite('isDisabledName', () => {
+		const cases: Array<[string, boolean]> = [
+			['Suite.Test', false],
+			['Suite.DISABLED_Test', true],
+			['DISABLED_Suite.Test', true],
+			['Inst/DISABLED_Suite.Test/0', true],
+			['DISABLED_Typed/0.Test', true],
+			['Suite.Test_DISABLED_', false],
+			['MY_DISABLED_Suite.Test', false],
+			['Suite.DISABLED_*', true]
+		];
+		for (const [fullName, expected] of cases) {
+			test(fullName, () => {
+				assert.strictEqual(isDisabledName(fullName), expected);
+			});
+		}
+	});
+
+	test('buildFilter', () => {
+		assert.strictEqual(buildFilter(['A.B', '*/C.D/*']), 'A.B:*/C.D/*');
+		assert.strictEqual(buildFilter([]), '*');
+	});
+
+	test('namesMatching', () => {
+		assert.deepStrictEqual(namesMatching('*/S.T/*', ['I/S.T/0', 'I/S.T/1', 'S.T', 'I/S.U/0']), ['I/S.T/0', 'I/S.T/1']);
+	});
+});
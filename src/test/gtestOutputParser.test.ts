@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { splitOutputByTest, outputForTest, GTestLineParser } from '../gtestOutputParser';
+
+const OUTPUT = [
+	'Running main() from gtest_main.cc',
+	'[==========] Running 3 tests from 1 test suite.',
+	'[ RUN      ] Suite.A',
+	'a says hi',
+	'[       OK ] Suite.A (0 ms)',
+	'[ RUN      ] Inst/Suite.P/0',
+	'p.cpp:3: Failure',
+	'[  FAILED  ] Inst/Suite.P/0, where GetParam() = 1 (0 ms)',
+	'[ RUN      ] Inst/Suite.P/1',
+	'[       OK ] Inst/Suite.P/1 (0 ms)',
+	'[==========] 3 tests ran.',
+	'[  FAILED  ] Inst/Suite.P/0, where GetParam() = 1'
+].join('\n');
+
+suite('gtestOutputParser', () => {
+	test('splitOutputByTest', () => {
+		const split = splitOutputByTest(OUTPUT);
+		assert.deepStrictEqual(Array.from(split.perTest.keys()), ['Suite.A', 'Inst/Suite.P/0', 'Inst/Suite.P/1']);
+		assert.strictEqual(split.perTest.get('Suite.A'), '[ RUN      ] Suite.A\na says hi\n[       OK ] Suite.A (0 ms)\n');
+		assert.strictEqual(
+			split.global,
+			[
+				'Running main() from gtest_main.cc',
+				'[==========] Running 3 tests from 1 test suite.',
+				'[==========] 3 tests ran.',
+				'[  FAILED  ] Inst/Suite.P/0, where GetParam() = 1'
+			].join('\n')
+		);
+	});
+
+	test('a test without end marker keeps its output', () => {
+		const split = splitOutputByTest('[ RUN      ] Suite.Crash\nabout to crash');
+		assert.strictEqual(split.perTest.get('Suite.Crash'), '[ RUN      ] Suite.Crash\nabout to crash\n');
+	});
+
+	test('repeated runs append to the same section', () => {
+		const once = '[ RUN      ] S.T\n[       OK ] S.T (0 ms)';
+		const split = splitOutputByTest(`${once}\n${once}`);
+		assert.strictEqual(split.perTest.get('S.T'), `${once}\n${once}\n`);
+	});
+
+	test('outputForTest collects instances of a wildcard name', () => {
+		const output = outputForTest('*/Suite.P/*', splitOutputByTest(OUTPUT));
+		assert.ok(output.startsWith('[ RUN      ] Inst/Suite.P/0\n'));
+		assert.ok(output.includes('[       OK ] Inst/Suite.P/1 (0 ms)\n'));
+		assert.ok(!output.includes('a says hi'));
+		assert.ok(output.includes('---------- global setup / teardown ----------\nRunning main()'));
+	});
+
+	test('outputForTest without a section', () => {
+		assert.strictEqual(
+			outputForTest('Other.Test', { global: '', perTest: new Map() }),
+			'(No output section for Other.Test in this run.)\n'
+		);
+	});
+
+	test('GTestLineParser reports markers as chunks arrive', () => {
+		const events: string[] = [];
+		const parser = new GTestLineParser({
+			onTotal: (n) => events.push(`total ${n}`),
+			onTestStarted: (name) => events.push(`start ${name}`),
+			onTestFinished: (name, result) => events.push(`${result} ${name}`)
+		});
+		// Chunks split lines anywhere, including inside a marker
+		const chunks = OUTPUT.match(/[\s\S]{1,7}/g) ?? [];
+		chunks.forEach((c) => parser.feed(c));
+		assert.strictEqual(parser.currentTest, undefined);
+		parser.end();
+		assert.deepStrictEqual(events, [
+			'total 3',
+			'start Suite.A',
+			'passed Suite.A',
+			'start Inst/Suite.P/0',
+			'failed Inst/Suite.P/0',
+			'start Inst/Suite.P/1',
+			'passed Inst/Suite.P/1'
+		]);
+	});
+
+	test('GTestLineParser keeps the running test and flushes the last line on end', () => {
+		const events: string[] = [];
+		const parser = new GTestLineParser({
+			onTestFinished: (name, result) => events.push(`${result} ${name}`)
+		});
+		parser.feed('[ RUN      ] S.Skip\r\n[  SKIPPED ] S.Skip (0 ms)\r\n[ RUN      ] S.Hang\r\n');
+		assert.strictEqual(parser.currentTest, 'S.Hang');
+		parser.feed('[       OK ] S.Hang (1 ms)');
+		assert.deepStrictEqual(events, ['skipped S.Skip']);
+		parser.end();
+		assert.deepStrictEqual(events, ['skipped S.Skip', 'passed S.Hang']);
+		assert.strictEqual(parser.currentTest, undefined);
+	});
+});
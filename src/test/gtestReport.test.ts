@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { parseFailure, parseGTestJsonReport, resultsForNames, hasOutputFlag } from '../gtestReport';
+
+suite('gtestReport', () => {
+	suite('parseFailure', () => {
+		const cases: Array<[string, string, ReturnType<typeof parseFailure>]> = [
+			[
+				'file:line',
+				'/src/foo_test.cpp:42\nExpected equality of these values:\n  a\n  b',
+				{ file: '/src/foo_test.cpp', line: 42, message: 'Expected equality of these values:\n  a\n  b' }
+			],
+			[
+				'MSVC file(line)',
+				'C:\\src\\foo_test.cpp(7)\nValue of: x',
+				{ file: 'C:\\src\\foo_test.cpp', line: 7, message: 'Value of: x' }
+			],
+			['Windows drive with colon line', 'C:\\src\\a.cpp:12\nboom', { file: 'C:\\src\\a.cpp', line: 12, message: 'boom' }],
+			['location only', 'a.cpp:3', { file: 'a.cpp', line: 3, message: '' }],
+			['no location', 'Failed\nsomething went wrong', { message: 'Failed\nsomething went wrong' }],
+			['unknown file', 'unknown file\nC++ exception thrown', { message: 'unknown file\nC++ exception thrown' }]
+		];
+		for (const [name, text, expected] of cases) {
+			test(name, () => {
+				assert.deepStrictEqual(parseFailure(text), expected);
+			});
+		}
+	});
+
+	test('parseGTestJsonReport', () => {
+		const report = {
+			testsuites: [
+				{
+					name: 'Suite',
+					testsuite: [
+						{ name: 'Passes', status: 'RUN', result: 'COMPLETED', time: '0.012s', timestamp: '2024-01-02T03:04:05Z' },
+						{
+							name: 'Fails',
+							status: 'RUN',
+							result: 'COMPLETED',
+							time: '0s',
+							failures: [{ failure: 'a.cpp:5\nboom', type: '' }]
+						},
+						{ name: 'Skipped', status: 'RUN', result: 'SKIPPED', time: '0s' },
+						{ name: 'DISABLED_Off', status: 'NOTRUN', result: 'SUPPRESSED' }
+					]
+				}
+			]
+		};
+		assert.deepStrictEqual(parseGTestJsonReport(JSON.stringify(report)), [
+			{
+				fullName: 'Suite.Passes',
+				status: 'passed',
+				durationMs: 12,
+				failures: [],
+				timestamp: Date.parse('2024-01-02T03:04:05Z')
+			},
+			{
+				fullName: 'Suite.Fails',
+				status: 'failed',
+				durationMs: 0,
+				failures: [{ file: 'a.cpp', line: 5, message: 'boom' }],
+				timestamp: undefined
+			},
+			{ fullName: 'Suite.Skipped', status: 'ignored', durationMs: 0, failures: [], timestamp: undefined },
+			{ fullName: 'Suite.DISABLED_Off', status: 'ignored', durationMs: undefined, failures: [], timestamp: undefined }
+		]);
+	});
+
+	test('resultsForNames combines instances of wildcard names', () => {
+		const reported = [
+			{ fullName: 'Inst/Suite.Test/0', status: 'passed' as const, durationMs: 2, timestamp: 20 },
+			{ fullName: 'Inst/Suite.Test/1', status: 'failed' as const, durationMs: 3, timestamp: 10 },
+			{ fullName: 'Plain.Test', status: 'ignored' as const }
+		];
+		assert.deepStrictEqual(resultsForNames(['*/Suite.Test/*', 'Plain.Test', 'Missing.Test'], reported), [
+			{ fullName: '*/Suite.Test/*', status: 'failed', durationMs: 5, failures: [], timestamp: 10 },
+			{ fullName: 'Plain.Test', status: 'ignored', durationMs: 0, failures: [], timestamp: undefined },
+			{ fullName: 'Missing.Test', status: 'none' }
+		]);
+	});
+
+	test('hasOutputFlag', () => {
+		assert.strictEqual(hasOutputFlag(['--gtest_repeat=2', '--gtest_output=xml:out.xml']), true);
+		assert.strictEqual(hasOutputFlag(['--gtest_repeat=2']), false);
+	});
+});
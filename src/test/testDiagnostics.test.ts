@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { parseExpectedActual } from '../testDiagnostics';
+
+suite('testDiagnostics', () => {
+	suite('parseExpectedActual', () => {
+		const cases: Array<[string, string, ReturnType<typeof parseExpectedActual>]> = [
+			[
+				'EXPECT_EQ literals',
+				'Expected equality of these values:\n  1\n  2',
+				{ expected: '1', actual: '2' }
+			],
+			[
+				'EXPECT_EQ with Which is',
+				'Expected equality of these values:\n  expectedValue\n    Which is: 42\n  compute()\n    Which is: 41',
+				{ expected: '42', actual: '41' }
+			],
+			[
+				'trailing text after the operands',
+				'Expected equality of these values:\n  a\n  b\nsome note',
+				{ expected: 'a', actual: 'b' }
+			],
+			['CRLF line endings', 'Expected equality of these values:\r\n  x\r\n  y', { expected: 'x', actual: 'y' }],
+			[
+				'boolean assertion',
+				'Value of: flag\n  Actual: false\nExpected: true',
+				{ expected: 'true', actual: 'false' }
+			],
+			['single operand', 'Expected equality of these values:\n  a', undefined],
+			['no values', 'Failed\nsomething went wrong', undefined]
+		];
+		for (const [name, message, expected] of cases) {
+			test(name, () => {
+				assert.deepStrictEqual(parseExpectedActual(message), expected);
+			});
+		}
+	});
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { parseGTestList, baseSuiteName, baseTestName, ListedTest } from '../testDiscovery';
+
+function listed(suiteName: string, testName: string): ListedTest {
+	return { suiteName, testName, fullName: `${suiteName}.${testName}` };
+}
+
+suite('testDiscovery', () => {
+	suite('parseGTestList', () => {
+		const cases: Array<[string, string, ListedTest[]]> = [
+			['empty output', '', []],
+			['plain suite', 'Suite.\n  A\n  B\n', [listed('Suite', 'A'), listed('Suite', 'B')]],
+			['CRLF line endings', 'Suite.\r\n  A\r\n', [listed('Suite', 'A')]],
+			[
+				'parameterized comments dropped',
+				'Inst/Param.  # TypeParam = int\n  Case/0  # GetParam() = 1\n  Case/1  # GetParam() = 2\n',
+				[listed('Inst/Param', 'Case/0'), listed('Inst/Param', 'Case/1')]
+			],
+			[
+				'several suites',
+				'First.\n  A\nSecond.\n  B\n',
+				[listed('First', 'A'), listed('Second', 'B')]
+			],
+			[
+				'banner lines ignored',
+				'Running main() from gtest_main.cc\n  NotATest\nSuite.\n  A\n',
+				[listed('Suite', 'A')]
+			],
+			['test before any suite', '  Orphan\n', []]
+		];
+		for (const [name, output, expected] of cases) {
+			test(name, () => {
+				assert.deepStrictEqual(parseGTestList(output), expected);
+			});
+		}
+	});
+
+	suite('baseSuiteName', () => {
+		const cases: Array<[string, string]> = [
+			['Suite', 'Suite'],
+			['Inst/Param', 'Param'],
+			['Typed/0', 'Typed'],
+			['Inst/TypedP/1', 'TypedP']
+		];
+		for (const [suiteName, expected] of cases) {
+			test(suiteName, () => {
+				assert.strictEqual(baseSuiteName(suiteName), expected);
+			});
+		}
+	});
+
+	suite('baseTestName', () => {
+		const cases: Array<[string, string]> = [
+			['Test', 'Test'],
+			['Case/0', 'Case'],
+			['Case/12', 'Case'],
+			['Case/name', 'Case/name']
+		];
+		for (const [testName, expected] of cases) {
+			test(testName, () => {
+				assert.strictEqual(baseTestName(testName), expected);
+			});
+		}
+	});
+});
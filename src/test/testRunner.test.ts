@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { shardCount } from '../testRunner';
+import { resultsForNames } from '../gtestReport';
+
+suite('testRunner', () => {
+	suite('shardCount', () => {
+		const cases: Array<[string, number, string[], number]> = [
+			['fewer tests than workers', 8, ['A.a', 'A.b', 'A.c'], 3],
+			['more tests than workers', 2, ['A.a', 'A.b', 'A.c'], 2],
+			['wildcards may expand to any number of tests', 4, ['*/P.Test/*'], 4],
+			['no tests', 4, [], 1],
+			['no workers', 0, ['A.a'], 1]
+		];
+		for (const [name, workers, fullNames, expected] of cases) {
+			test(name, () => {
+				assert.strictEqual(shardCount(workers, fullNames), expected);
+			});
+		}
+	});
+
+	test('per-shard reports merge into one result per requested name', () => {
+		const shard1 = [
+			{ fullName: 'A.a', status: 'passed' as const, durationMs: 1, timestamp: 30 },
+			{ fullName: 'Inst/P.Test/0', status: 'passed' as const, durationMs: 2, timestamp: 20 }
+		];
+		const shard2 = [
+			{ fullName: 'A.b', status: 'failed' as const, durationMs: 4, failures: [{ message: 'boom' }], timestamp: 40 },
+			{ fullName: 'Inst/P.Test/1', status: 'failed' as const, durationMs: 3, failures: [{ message: 'bad' }], timestamp: 10 }
+		];
+		assert.deepStrictEqual(resultsForNames(['A.a', 'A.b', '*/P.Test/*'], [...shard1, ...shard2]), [
+			{ fullName: 'A.a', status: 'passed', durationMs: 1, failures: [], timestamp: 30 },
+			{ fullName: 'A.b', status: 'failed', durationMs: 4, failures: [{ message: 'boom' }], timestamp: 40 },
+			{ fullName: '*/P.Test/*', status: 'failed', durationMs: 5, failures: [{ message: 'bad' }], timestamp: 10 }
+		]);
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { scanFile } from '../testScanner';
+
+/** Scan source text through a temporary file. */
+function scan(source: string) {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gtest-scan-'));
+	const file = path.join(dir, 'scan_test.cpp');
+	try {
+		fs.writeFileSync(file, source);
+		return scanFile(file);
+	} finally {
+		fs.rmSync(dir, { recursive: true, force: true });
+	}
+}
+
+suite('testScanner', () => {
+	const cases: Array<[string, string, string[]]> = [
+		['TEST and TEST_F', 'TEST(Suite, A) {}\nTEST_F(Fixture, B) {}', ['Suite.A', 'Fixture.B']],
+		['TEST_P', 'TEST_P(Suite, A) {}', ['*/Suite.A/*']],
+		['TYPED_TEST and TYPED_TEST_P', 'TYPED_TEST(S, A) {}\nTYPED_TEST_P(T, B) {}', ['S/*.A', '*/T/*.B']],
+		['commented out', '// TEST(Suite, A) {}\n/* TEST(Suite, B) {} */', []],
+		['in a string', 'const char* s = "TEST(Suite, A)";', []],
+		['in #if 0', '#if 0\nTEST(Suite, A) {}\n#endif\nTEST(Suite, B) {}', ['Suite.B']],
+		['in inactive #elif', '#if 1\nTEST(Suite, A) {}\n#elif 1\nTEST(Suite, B) {}\n#endif', ['Suite.A']],
+		['member call', 'obj.TEST(Suite, A);', []],
+		['wrong argument count', 'TEST(Suite) {}\nTEST(Suite, A, B) {}', []]
+	];
+	for (const [name, source, expected] of cases) {
+		test(name, () => {
+			assert.deepStrictEqual(scan(source).map((t) => t.fullName), expected);
+		});
+	}
+
+	test('macro arguments over several lines', () => {
+		const [t] = scan('\nTEST(\n    Suite,\n    LongName) {}');
+		assert.strictEqual(t.fullName, 'Suite.LongName');
+		assert.strictEqual(t.line, 2);
+		assert.deepStrictEqual(t.nameRange, { line: 4, startColumn: 4, endColumn: 12 });
+	});
+
+	test('instantiation prefixes', () => {
+		const [t] = scan(
+			'TEST_P(Suite, A) {}\nINSTANTIATE_TEST_SUITE_P(Ints, Suite, ::testing::Values(1, 2));\n' +
+				'INSTANTIATE_TEST_SUITE_P(\n  Strings,\n  Suite,\n  ::testing::Values("a"));'
+		);
+		assert.deepStrictEqual(t.instantiations, ['Ints', 'Strings']);
+	});
+});
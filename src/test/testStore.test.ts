@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { testStore, TestStatus } from '../testStore';
+
+const folder = { uri: vscode.Uri.file('/workspace'), name: 'workspace', index: 0 } as vscode.WorkspaceFolder;
+
+/** Workspace storage that keeps what was last saved under each key. */
+function memoryStorage(): vscode.Memento & { saved: Map<string, unknown> } {
+	const saved = new Map<string, unknown>();
+	return {
+		saved,
+		keys: () => Array.from(saved.keys()),
+		get: <T>(key: string, defaultValue?: T) => (saved.has(key) ? (saved.get(key) as T) : defaultValue),
+		update: (key: string, value: unknown) => {
+			saved.set(key, value);
+			return Promise.resolve();
+		}
+	} as vscode.Memento & { saved: Map<string, unknown> };
+}
+
+suite('testStore', () => {
+	test('history is cut to the configured size, oldest runs first out', () => {
+		const historySize = vscode.workspace.getConfiguration('gtest-plugin').get<number>('historySize', 20);
+		const statuses: TestStatus[] = [];
+		for (let i = 0; i < historySize + 5; i++) {
+			const status: TestStatus = i % 2 === 0 ? 'passed' : 'failed';
+			statuses.push(status);
+			testStore.setStatusBulk(folder, 'history_test', [{ fullName: 'Suite.Test', status, durationMs: i }]);
+		}
+		const history = testStore.getResult(folder, 'history_test', 'Suite.Test')?.history ?? [];
+		assert.strictEqual(history.length, historySize);
+		assert.deepStrictEqual(history.map((r) => r.status), statuses.slice(-historySize));
+		assert.strictEqual(history[history.length - 1].durationMs, historySize + 4);
+	});
+
+	test('queued and running are neither added to history nor persisted', () => {
+		const storage = memoryStorage();
+		testStore.attachStorage(storage);
+		testStore.setStatusBulk(folder, 'persist_test', [{ fullName: 'Suite.Test', status: 'passed', durationMs: 7 }]);
+		const key = 'gtest-plugin.testResults';
+		const savedAfterRun = storage.saved.get(key);
+		assert.ok(savedAfterRun);
+
+		testStore.setStatusBulk(folder, 'persist_test', [{ fullName: 'Suite.Test', status: 'queued' }]);
+		testStore.setStatusBulk(folder, 'persist_test', [{ fullName: 'Suite.Test', status: 'running' }]);
+		assert.strictEqual(storage.saved.get(key), savedAfterRun, 'in-progress updates must not save');
+
+		const result = testStore.getResult(folder, 'persist_test', 'Suite.Test');
+		assert.strictEqual(result?.status, 'running');
+		assert.strictEqual(result?.durationMs, 7, 'the last duration stays until the run ends');
+		assert.deepStrictEqual(result?.history?.map((r) => r.status), ['passed']);
+
+		// Saved while another test finishes: the running test is stored without its in-progress state
+		testStore.setStatusBulk(folder, 'persist_other', [{ fullName: 'Suite.Other', status: 'failed' }]);
+		const saved = storage.saved.get(key) as Record<string, { status: TestStatus }>;
+		const entry = Object.entries(saved).find(([k]) => k.endsWith('|persist_test::Suite.Test'));
+		assert.strictEqual(entry?.[1].status, 'none');
+	});
+});
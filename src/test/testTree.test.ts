@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { summarize, describeSummary, directoryNodes, NodeSummary, GTestTreeNode } from '../testTree';
+import { testStore, TestStatus } from '../testStore';
+
+const folder = { uri: vscode.Uri.file('/workspace'), name: 'workspace', index: 0 } as vscode.WorkspaceFolder;
+
+/** Suite node over one test per status, with those statuses (and durations 1, 2, 3, ...) stored. */
+function suiteWithResults(executable: string, statuses: TestStatus[]): GTestTreeNode {
+	const fullNames = statuses.map((_, i) => `Suite.Test${i}`);
+	testStore.setStatusBulk(
+		folder,
+		executable,
+		statuses.map((status, i) => ({ fullName: fullNames[i], status, durationMs: i + 1 }))
+	);
+	return {
+		kind: 'suite',
+		label: 'Suite',
+		id: `${executable}::Suite`,
+		folder,
+		executable,
+		children: fullNames.map((fullName) => ({
+			kind: 'test',
+			label: fullName,
+			id: fullName,
+			folder,
+			executable,
+			fullName,
+			children: []
+		}))
+	};
+}
+
+suite('testTree', () => {
+	suite('summarize', () => {
+		const cases: Array<[string, TestStatus[], TestStatus]> = [
+			['nothing run', ['none', 'none'], 'none'],
+			['failed wins over everything', ['passed', 'running', 'ignored', 'failed'], 'failed'],
+			['timed out counts as failed', ['passed', 'timedOut'], 'failed'],
+			['running wins over passed', ['passed', 'queued'], 'running'],
+			['passed wins over skipped', ['ignored', 'passed'], 'passed'],
+			['all skipped', ['ignored', 'ignored'], 'ignored']
+		];
+		cases.forEach(([name, statuses, expected], i) => {
+			test(name, () => {
+				assert.strictEqual(summarize(suiteWithResults(`summarize_${i}`, statuses)).status, expected);
+			});
+		});
+
+		test('counts and durations', () => {
+			const summary = summarize(suiteWithResults('counts', ['passed', 'failed', 'timedOut', 'ignored', 'passed']));
+			assert.deepStrictEqual(
+				{ ...summary, lastRunTime: undefined },
+				{
+					status: 'failed',
+					total: 5,
+					passed: 2,
+					failed: 2,
+					skipped: 1,
+					durationMs: 15,
+					lastRunTime: undefined,
+					slowest: { fullName: 'Suite.Test4', durationMs: 5 }
+				}
+			);
+		});
+	});
+
+	suite('describeSummary', () => {
+		const base: NodeSummary = { status: 'none', total: 3, passed: 0, failed: 0, skipped: 0, durationMs: 0 };
+		const cases: Array<[string, Partial<NodeSummary>, string | undefined]> = [
+			['nothing run', {}, undefined],
+			['passed only, no duration', { passed: 3 }, '3 ✓'],
+			['all counts with duration', { passed: 12, failed: 3, skipped: 1, durationMs: 4200 }, '12 ✓ 3 ✗ 1 ⊘ · 4.2s']
+		];
+		for (const [name, summary, expected] of cases) {
+			test(name, () => {
+				assert.strictEqual(describeSummary({ ...base, ...summary }), expected);
+			});
+		}
+	});
+
+	suite('directoryNodes', () => {
+		const root = folder.uri.fsPath;
+		/** Directory and file labels (with the description of external files), suites left out. */
+		const shape = (nodes: GTestTreeNode[]): unknown[] =>
+			nodes.map((n) =>
+				n.kind === 'file'
+					? n.description
+						? `${n.label} (${n.description})`
+						: n.label
+					: { [n.label]: shape(n.children) }
+			);
+		const entry = (filePath: string | undefined, suiteName = 'Suite') => ({
+			suiteName,
+			testName: 'Test',
+			fullName: `${suiteName}.Test`,
+			filePath
+		});
+		const nodesFor = (...filePaths: Array<string | undefined>) =>
+			directoryNodes(folder, 'exe', filePaths.map((f, i) => entry(f, `Suite${i}`)), 'exe');
+
+		test('single-child directory chains are compacted', () => {
+			const nodes = nodesFor(
+				path.join(root, 'src', 'core', 'tests', 'a_test.cpp'),
+				path.join(root, 'src', 'core', 'tests', 'b_test.cpp')
+			);
+			assert.deepStrictEqual(shape(nodes), [{ 'src/core/tests': ['a_test.cpp', 'b_test.cpp'] }]);
+			assert.strictEqual(nodes[0].id, `exe#dir:${path.join('src', 'core', 'tests')}`);
+		});
+
+		test('chains stop where directories branch', () => {
+			const nodes = nodesFor(
+				path.join(root, 'src', 'core', 'a_test.cpp'),
+				path.join(root, 'src', 'util', 'b_test.cpp'),
+				path.join(root, 'top_test.cpp')
+			);
+			assert.deepStrictEqual(shape(nodes), [
+				{ src: [{ core: ['a_test.cpp'] }, { util: ['b_test.cpp'] }] },
+				'top_test.cpp'
+			]);
+		});
+
+		test('files outside the folder go under one External node', () => {
+			const outside = path.resolve(root, '..', 'elsewhere', 'lib');
+			const nodes = nodesFor(
+				path.join(root, 'tests', 'a_test.cpp'),
+				path.join(outside, 'b_test.cpp'),
+				path.join(outside, 'deep', 'c_test.cpp')
+			);
+			assert.deepStrictEqual(shape(nodes), [
+				{ tests: ['a_test.cpp'] },
+				{ External: [`b_test.cpp (${outside})`, `c_test.cpp (${path.join(outside, 'deep')})`] }
+			]);
+			assert.strictEqual(nodes[1].id, 'exe#external');
+		});
+
+		test('tests without a location are listed at the top', () => {
+			assert.deepStrictEqual(shape(nodesFor(undefined)), ['Unknown file']);
+		});
+	});
+});
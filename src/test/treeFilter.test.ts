@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { parsePatterns } from '../treeFilter';
+
+suite('treeFilter', () => {
+	suite('parsePatterns', () => {
+		const cases: Array<[string, ReturnType<typeof parsePatterns>]> = [
+			['', { positive: ['*'], negative: [] }],
+			['Foo', { positive: ['*foo*'], negative: [] }],
+			['Foo*:Bar*', { positive: ['foo*', 'bar*'], negative: [] }],
+			['Foo*:Bar*:-*Slow*', { positive: ['foo*', 'bar*'], negative: ['*slow*'] }],
+			['-*Slow*', { positive: ['*'], negative: ['*slow*'] }],
+			['-Slow:Flaky', { positive: ['*'], negative: ['*slow*', '*flaky*'] }],
+			['string-utils', { positive: ['*string-utils*'], negative: [] }],
+			['my-test.cpp', { positive: ['*my-test.cpp*'], negative: [] }],
+			['string-utils:-*Slow*', { positive: ['*string-utils*'], negative: ['*slow*'] }],
+			['Foo: -Bar', { positive: ['*foo*'], negative: ['*bar*'] }]
+		];
+		for (const [text, expected] of cases) {
+			test(JSON.stringify(text), () => {
+				assert.deepStrictEqual(parsePatterns(text), expected);
+			});
+		}
+	});
+});
@@ -0,0 +1,278 @@
+/**
+ * Native VS Code Testing API backend (Test Explorer, gutter icons, "Run Tests in Current File").
+ * Mirrors the GTest tree ([Folder ->] Executable -> Suite -> Test) as TestItems and runs them through the same runner.
+ * The coverage profile shows line coverage from coverage.ts in editors and the Test Coverage view.
+ */
+
+import * as vscode from 'vscode';
+import { GTestTreeNode, GTestTreeProvider } from './testTree';
+import { runTestsWithNames, debugTestsWithNames, rememberLastRun } from './testRunner';
+import { testStore } from './testStore';
+import { toTestMessages } from './testDiagnostics';
+import { isBuildFailed } from './buildManager';
+import { runWithCoverage, FileLineCoverage } from './coverage';
+import { logInfo, logError } from './log';
+
+/** Controller id and label shown in the Test Explorer. */
+const CONTROLLER_ID = 'gtest-plugin';
+const CONTROLLER_LABEL = 'Google Test';
+
+/** Convert output to the CRLF form TestRun.appendOutput expects (it is a terminal). */
+function toTerminalOutput(output: string): string {
+  return output.replace(/\r?\n/g, '\r\n');
+}
+
+/** Requested leaf items of one executable in one workspace folder. */
+interface ExecutableItems {
+  folder: vscode.WorkspaceFolder;
+  executable: string;
+  items: vscode.TestItem[];
+}
+
+export class GTestTestController implements vscode.Disposable {
+  private controller: vscode.TestController;
+  /** Tree node behind each TestItem (for executable and fullName). */
+  private nodes = new WeakMap<vscode.TestItem, GTestTreeNode>();
+  /** Line details behind each reported file coverage (loaded when a file is opened). */
+  private coverageDetails = new WeakMap<vscode.FileCoverage, vscode.StatementCoverage[]>();
+  private coverageProfile: vscode.TestRunProfile;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private treeProvider: GTestTreeProvider
+  ) {
+    this.controller = vscode.tests.createTestController(CONTROLLER_ID, CONTROLLER_LABEL);
+    this.controller.refreshHandler = async () => {
+      await vscode.commands.executeCommand('gtest-plugin.refreshTests');
+    };
+    this.controller.createRunProfile(
+      'Run',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runHandler(request, token),
+      true
+    );
+    this.controller.createRunProfile(
+      'Debug',
+      vscode.TestRunProfileKind.Debug,
+      (request, token) => this.debugHandler(request, token),
+      true
+    );
+    this.coverageProfile = this.controller.createRunProfile(
+      'Run with Coverage',
+      vscode.TestRunProfileKind.Coverage,
+      (request, token) => this.runHandler(request, token, true),
+      true
+    );
+    this.coverageProfile.loadDetailedCoverage = async (_run, fileCoverage) =>
+      this.coverageDetails.get(fileCoverage) ?? [];
+    this.disposables.push(
+      this.controller,
+      treeProvider.onDidLoadTests(() => this.loadItems())
+    );
+    this.loadItems();
+  }
+
+  /** Rebuild all TestItems from the current top-level tree nodes (executables, or folders in multi-root). */
+  private loadItems(): void {
+    const items = this.treeProvider.getTopLevel().map((n) => this.createItem(n));
+    this.controller.items.replace(items);
+    logInfo(`Test controller loaded ${this.treeProvider.getRoots().length} executable(s)`);
+  }
+
+  /** Create a TestItem (and its children) for a tree node. */
+  private createItem(node: GTestTreeNode): vscode.TestItem {
+    const uri = node.filePath ? vscode.Uri.file(node.filePath) : undefined;
+    const item = this.controller.createTestItem(node.id, node.label, uri);
+    if (node.line !== undefined) {
+      // From the macro to the end of the test name, so multi-line macros get one gutter icon
+      const end = node.nameRange ?? { line: node.line, endColumn: 0 };
+      item.range = new vscode.Range(node.line - 1, 0, end.line - 1, end.endColumn);
+    }
+    for (const child of node.children) {
+      item.children.add(this.createItem(child));
+    }
+    this.nodes.set(item, node);
+    return item;
+  }
+
+  /** Collect leaf (test) items from the request, grouped by folder and executable, honoring request.exclude. */
+  private collectTests(request: vscode.TestRunRequest): ExecutableItems[] {
+    const excluded = new Set(request.exclude ?? []);
+    const byExecutable = new Map<string, ExecutableItems>();
+    const visit = (item: vscode.TestItem) => {
+      if (excluded.has(item)) {
+        return;
+      }
+      if (item.children.size > 0) {
+        item.children.forEach(visit);
+        return;
+      }
+      const node = this.nodes.get(item);
+      if (!node?.fullName) {
+        return;
+      }
+      const key = `${node.folder.uri.toString()}|${node.executable}`;
+      const entry = byExecutable.get(key) ?? { folder: node.folder, executable: node.executable, items: [] };
+      entry.items.push(item);
+      byExecutable.set(key, entry);
+    };
+    if (request.include) {
+      request.include.forEach(visit);
+    } else {
+      this.controller.items.forEach(visit);
+    }
+    return Array.from(byExecutable.values());
+  }
+
+  /** Full test names for a list of leaf items. */
+  private fullNamesOf(items: vscode.TestItem[]): string[] {
+    return items.map((i) => this.nodes.get(i)?.fullName).filter((n): n is string => !!n);
+  }
+
+  /**
+   * Run profile: run each executable once with a filter of the requested tests and report via TestRun.
+   * With coverage, the line coverage of the run is added to the TestRun afterwards.
+   */
+  private async runHandler(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    coverage = false
+  ): Promise<void> {
+    const run = this.controller.createTestRun(request);
+    const byExecutable = this.collectTests(request);
+    try {
+      for (const { items } of byExecutable) {
+        items.forEach((i) => run.enqueued(i));
+      }
+      if (coverage) {
+        const files = await runWithCoverage(byExecutable, (target, env) =>
+          this.runExecutable(run, target, token, env)
+        );
+        files.forEach((f) => run.addCoverage(this.toFileCoverage(f)));
+      } else {
+        rememberLastRun(
+          byExecutable.map(({ folder, executable, items }) => ({
+            folder,
+            executable,
+            fullNames: this.fullNamesOf(items)
+          }))
+        );
+        for (const target of byExecutable) {
+          await this.runExecutable(run, target, token);
+        }
+      }
+    } catch (e) {
+      logError('Test controller run failed: ' + (e as Error).message);
+    } finally {
+      run.end();
+    }
+  }
+
+  /** Run the requested tests of one executable and report their results to the TestRun. */
+  private async runExecutable(
+    run: vscode.TestRun,
+    { folder, executable, items }: ExecutableItems,
+    token: vscode.CancellationToken,
+    env?: Record<string, string>
+  ): Promise<void> {
+    if (token.isCancellationRequested) {
+      items.forEach((i) => run.skipped(i));
+      return;
+    }
+    // Items start when their [ RUN ] line streams in (status 'running' in testStore)
+    const started = new Set<vscode.TestItem>();
+    const byName = new Map(items.map((item) => [this.nodes.get(item)?.fullName ?? '', item]));
+    const live = testStore.onChanged((changedFolder, changedExecutable, fullName) => {
+      const item = byName.get(fullName);
+      const ours = changedFolder?.uri.toString() === folder.uri.toString() && changedExecutable === executable;
+      if (item && ours && !started.has(item) && testStore.getStatus(folder, executable, fullName) === 'running') {
+        started.add(item);
+        run.started(item);
+      }
+    });
+    const fullNames = this.fullNamesOf(items);
+    let results;
+    try {
+      results = await runTestsWithNames(this.context, folder, executable, fullNames, { token, env });
+    } finally {
+      live.dispose();
+    }
+    if (!results) {
+      // Nothing ran: report an error instead of the previous (stale) results
+      const message = isBuildFailed(folder, executable)
+        ? `Build of ${executable} failed`
+        : `${executable} was not run`;
+      items.forEach((i) => run.errored(i, new vscode.TestMessage(message)));
+      return;
+    }
+    for (const item of items) {
+      const fullName = this.nodes.get(item)?.fullName ?? '';
+      run.appendOutput(toTerminalOutput(testStore.getOutput(folder, executable, fullName)), undefined, item);
+      const status = testStore.getStatus(folder, executable, fullName);
+      const result = testStore.getResult(folder, executable, fullName);
+      if (status === 'passed') {
+        run.passed(item, result?.durationMs);
+      } else if (status === 'failed') {
+        const node = this.nodes.get(item);
+        const location =
+          node?.filePath && node.line !== undefined
+            ? { filePath: node.filePath, line: node.line }
+            : undefined;
+        run.failed(item, toTestMessages(fullName, result, location), result?.durationMs);
+      } else if (status === 'timedOut') {
+        run.errored(item, new vscode.TestMessage(`${fullName} timed out`));
+      } else {
+        run.skipped(item);
+      }
+    }
+  }
+
+  /** Testing API coverage of one file; the per-line details are kept for loadDetailedCoverage. */
+  private toFileCoverage(file: FileLineCoverage): vscode.FileCoverage {
+    const details = Array.from(
+      file.lines,
+      ([line, count]) => new vscode.StatementCoverage(count, new vscode.Position(line - 1, 0))
+    );
+    const fileCoverage = vscode.FileCoverage.fromDetails(vscode.Uri.file(file.filePath), details);
+    this.coverageDetails.set(fileCoverage, details);
+    return fileCoverage;
+  }
+
+  /** Run a tree node's tests with the coverage profile (Run with Coverage from the GTest view). */
+  async runNodeWithCoverage(node: GTestTreeNode): Promise<void> {
+    const find = (items: vscode.TestItemCollection): vscode.TestItem | undefined => {
+      let found: vscode.TestItem | undefined;
+      items.forEach((item) => {
+        found ??= item.id === node.id ? item : find(item.children);
+      });
+      return found;
+    };
+    const item = find(this.controller.items);
+    if (!item) {
+      vscode.window.showInformationMessage(`${node.label} is not in the Test Explorer; rescan tests first.`);
+      return;
+    }
+    const request = new vscode.TestRunRequest([item], undefined, this.coverageProfile);
+    const source = new vscode.CancellationTokenSource();
+    try {
+      await this.runHandler(request, source.token, true);
+    } finally {
+      source.dispose();
+    }
+  }
+
+  /** Debug profile: start one debug session per executable with the requested tests. */
+  private async debugHandler(
+    request: vscode.TestRunRequest,
+    _token: vscode.CancellationToken
+  ): Promise<void> {
+    for (const { folder, executable, items } of this.collectTests(request)) {
+      await debugTestsWithNames(this.context, folder, executable, this.fullNamesOf(items));
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Assertion failures in the editor: Problems panel diagnostics at the failing line and
+ * TestMessage peeks (with expected/actual diff) for the Testing API.
+ * Built from testStore failures; tests without file:line fall back to their macro line from the scanner.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { testStore, testKey, VIEW_REFRESH_DELAY_MS, TestFailure, TestResult } from './testStore';
+
+/** Source location of a test macro (from the tree / scanner). */
+export interface TestLocation {
+  filePath: string;
+  /** 1-based line of the macro. */
+  line: number;
+}
+
+/** Finds where a test is defined; undefined if the test is not in the current tree. */
+export type TestLocator = (
+  folder: vscode.WorkspaceFolder,
+  executable: string,
+  fullName: string
+) => TestLocation | undefined;
+
+/**
+ * Extract expected/actual values from a GTest assertion message.
+ * Handles EXPECT_EQ style ("Expected equality of these values" with optional "Which is:")
+ * and boolean / predicate style ("Value of: / Actual: / Expected:").
+ */
+export function parseExpectedActual(
+  message: string
+): { expected: string; actual: string } | undefined {
+  const lines = message.split(/\r?\n/);
+  const eqIdx = lines.findIndex((l) => l.startsWith('Expected equality of these values:'));
+  if (eqIdx >= 0) {
+    // Operands are indented by 2; their "Which is:" values by 4
+    const operands: string[] = [];
+    for (const l of lines.slice(eqIdx + 1)) {
+      const which = l.match(/^ {4}Which is: (.*)$/);
+      if (which && operands.length > 0) {
+        operands[operands.length - 1] = which[1];
+      } else if (/^ {2}\S/.test(l)) {
+        operands.push(l.trim());
+      } else {
+        break;
+      }
+    }
+    if (operands.length >= 2) {
+      return { expected: operands[0], actual: operands[1] };
+    }
+  }
+  const actual = lines.find((l) => /^\s*Actual: /.test(l));
+  const expected = lines.find((l) => /^\s*Expected: /.test(l));
+  if (actual && expected) {
+    return {
+      expected: expected.replace(/^\s*Expected: /, ''),
+      actual: actual.replace(/^\s*Actual: /, '')
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the file of a failure. GTest prints __FILE__, which may be relative to the build;
+ * relative paths are tried against the test's own directory.
+ */
+function resolveFailureFile(file: string, test: TestLocation | undefined): string | undefined {
+  if (path.isAbsolute(file)) {
+    return file;
+  }
+  if (!test) {
+    return undefined;
+  }
+  const candidate = path.resolve(path.dirname(test.filePath), file);
+  if (fs.existsSync(candidate)) {
+    return candidate;
+  }
+  return path.basename(file) === path.basename(test.filePath) ? test.filePath : undefined;
+}
+
+/** Editor location of a failure: its file:line if known, else the test macro line. */
+export function failureLocation(
+  failure: TestFailure,
+  test: TestLocation | undefined
+): vscode.Location | undefined {
+  const file = failure.file ? resolveFailureFile(failure.file, test) : undefined;
+  if (file && failure.line !== undefined) {
+    const line = Math.max(failure.line - 1, 0);
+    return new vscode.Location(vscode.Uri.file(file), new vscode.Range(line, 0, line, 0));
+  }
+  if (!test) {
+    return undefined;
+  }
+  const line = Math.max(test.line - 1, 0);
+  return new vscode.Location(vscode.Uri.file(test.filePath), new vscode.Range(line, 0, line, 0));
+}
+
+/** TestMessages for a failed result: one per assertion, as a diff when expected/actual are known. */
+export function toTestMessages(
+  fullName: string,
+  result: TestResult | undefined,
+  test: TestLocation | undefined
+): vscode.TestMessage[] {
+  const failures = result?.failures ?? [];
+  if (failures.length === 0) {
+    return [new vscode.TestMessage(`${fullName} failed`)];
+  }
+  return failures.map((f) => {
+    const values = parseExpectedActual(f.message);
+    const msg = values
+      ? vscode.TestMessage.diff(f.message, values.expected, values.actual)
+      : new vscode.TestMessage(f.message || `${fullName} failed`);
+    msg.location = failureLocation(f, test);
+    return msg;
+  });
+}
+
+/**
+ * Keeps a DiagnosticCollection in sync with failed tests in testStore.
+ * Diagnostics of a test stay while it is queued or re-running and are cleared once it no longer fails.
+ */
+export class TestDiagnostics implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection('gtest');
+  /** Diagnostics per testKey, so one test's update does not touch the others. */
+  private byTest = new Map<string, Array<{ uri: vscode.Uri; diagnostic: vscode.Diagnostic }>>();
+  private subscription: vscode.Disposable;
+
+  constructor(private locate: TestLocator) {
+    this.subscription = testStore.onChangedThrottled(VIEW_REFRESH_DELAY_MS, (folder, executable) => {
+      if (folder) {
+        this.update(folder, executable);
+      }
+    });
+  }
+
+  /** Recompute diagnostics for all tests of one executable. */
+  private update(folder: vscode.WorkspaceFolder, executable: string): void {
+    for (const { fullName, result } of testStore.getResultsFor(folder, executable)) {
+      const key = testKey(folder, executable, fullName);
+      if (result.status === 'queued' || result.status === 'running') {
+        continue;
+      }
+      if (result.status !== 'failed') {
+        this.byTest.delete(key);
+        continue;
+      }
+      const test = this.locate(folder, executable, fullName);
+      const failures: TestFailure[] = result.failures?.length
+        ? result.failures
+        : [{ message: `${fullName} failed` }];
+      const entries: Array<{ uri: vscode.Uri; diagnostic: vscode.Diagnostic }> = [];
+      for (const f of failures) {
+        const loc = failureLocation(f, test);
+        if (!loc) {
+          continue;
+        }
+        const text = f.message.trim() || `${fullName} failed`;
+        const diagnostic = new vscode.Diagnostic(
+          loc.range,
+          `${fullName}: ${text}`,
+          vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = 'GTest';
+        entries.push({ uri: loc.uri, diagnostic });
+      }
+      this.byTest.set(key, entries);
+    }
+    this.publish();
+  }
+
+  /** Push all diagnostics to the collection, grouped by file. */
+  private publish(): void {
+    const byFile = new Map<string, { uri: vscode.Uri; list: vscode.Diagnostic[] }>();
+    for (const entries of this.byTest.values()) {
+      for (const { uri, diagnostic } of entries) {
+        const group = byFile.get(uri.toString()) ?? { uri, list: [] };
+        group.list.push(diagnostic);
+        byFile.set(uri.toString(), group);
+      }
+    }
+    this.collection.clear();
+    for (const { uri, list } of byFile.values()) {
+      this.collection.set(uri, list);
+    }
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this.collection.dispose();
+  }
+}
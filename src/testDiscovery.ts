@@ -0,0 +1,129 @@
+/**
+ * Test discovery from built executables: runs the binary with --gtest_list_tests.
+ * Gives the exact names GTest knows about (macro-generated, typed and parameterized instances);
+ * source locations are merged in from the scanner.
+ */
+
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import { ScannedTest } from './testScanner';
+
+/** Listing should be quick; a binary that hangs here is not a usable test executable. */
+const LIST_TIMEOUT_MS = 30000;
+const LIST_MAX_BUFFER = 16 * 1024 * 1024;
+
+/** Single test as reported by --gtest_list_tests. */
+export interface ListedTest {
+  /** Suite name as GTest reports it (e.g. Suite, Inst/Suite, TypedSuite/0). */
+  suiteName: string;
+  /** Test name as GTest reports it (e.g. Test, Test/0). */
+  testName: string;
+  /** Full name usable in --gtest_filter: SuiteName.TestName. */
+  fullName: string;
+}
+
+/** Listed test with the source location of the macro that defines it (if found by the scanner). */
+export interface DiscoveredTest extends ListedTest {
+  filePath?: string;
+  line?: number;
+  nameRange?: ScannedTest['nameRange'];
+}
+
+/**
+ * Parse --gtest_list_tests output.
+ * Suites are unindented lines ending with '.', tests are indented lines below them;
+ * trailing "# GetParam() = ..." / "# TypeParam = ..." comments are dropped.
+ */
+export function parseGTestList(output: string): ListedTest[] {
+  const tests: ListedTest[] = [];
+  let suite: string | undefined;
+  for (const raw of output.split(/\r?\n/)) {
+    const line = raw.replace(/\s+#.*$/, '').trimEnd();
+    if (line === '') {
+      continue;
+    }
+    if (/^\s/.test(line)) {
+      if (!suite) {
+        continue;
+      }
+      const testName = line.trim();
+      tests.push({ suiteName: suite, testName, fullName: `${suite}.${testName}` });
+    } else if (line.endsWith('.') && !/\s/.test(line)) {
+      suite = line.slice(0, -1);
+    } else {
+      // Banner lines such as "Running main() from gtest_main.cc"
+      suite = undefined;
+    }
+  }
+  return tests;
+}
+
+/** Suite name as written in source: strips instantiation prefix (Inst/) and typed index (/0). */
+export function baseSuiteName(suiteName: string): string {
+  const parts = suiteName.split('/');
+  if (parts.length === 3) {
+    return parts[1];
+  }
+  if (parts.length === 2) {
+    return /^\d+$/.test(parts[1]) ? parts[0] : parts[1];
+  }
+  return suiteName;
+}
+
+/** Test name as written in source: strips parameter index (/0). */
+export function baseTestName(testName: string): string {
+  return testName.replace(/\/\d+$/, '');
+}
+
+/**
+ * Run an executable with --gtest_list_tests and parse the result.
+ * @returns Listed tests, or undefined if the executable does not exist or listing failed
+ */
+export function listTestsFromExecutable(
+  exePath: string,
+  cwd: string,
+  env: Record<string, string>
+): Promise<ListedTest[] | undefined> {
+  if (!fs.existsSync(exePath)) {
+    return Promise.resolve(undefined);
+  }
+  return new Promise((resolve) => {
+    execFile(
+      exePath,
+      ['--gtest_list_tests'],
+      {
+        cwd,
+        env: { ...process.env, ...env },
+        timeout: LIST_TIMEOUT_MS,
+        maxBuffer: LIST_MAX_BUFFER
+      },
+      (err, stdout) => {
+        if (err) {
+          resolve(undefined);
+          return;
+        }
+        resolve(parseGTestList(stdout));
+      }
+    );
+  });
+}
+
+/**
+ * Attach source locations from scanned tests to listed tests (matched by base suite and test name).
+ * Listed tests without a matching macro in source are kept without location.
+ */
+export function mergeWithScanned(
+  listed: ListedTest[],
+  scanned: Array<ScannedTest & { filePath: string }>
+): DiscoveredTest[] {
+  const byName = new Map<string, ScannedTest & { filePath: string }>();
+  for (const t of scanned) {
+    byName.set(`${t.suiteName}.${t.testName}`, t);
+  }
+  return listed.map((t) => {
+    const src = byName.get(`${baseSuiteName(t.suiteName)}.${baseTestName(t.testName)}`);
+    return src
+      ? { ...t, filePath: src.filePath, line: src.line, nameRange: src.nameRange }
+      : { ...t };
+  });
+}
@@ -1,44 +1,50 @@
 /**
  * Run or debug GTest: build if needed, then run executable with filter/env/flags.
  * Reuses CMake Tools settings; passes gtest filter and our config env/flags.
+ * Results come from a temporary --gtest_output=json report, with console parsing as fallback.
+ * Optionally runs one executable as N parallel GTest shards and merges their results.
  */
 
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { spawn } from 'child_process';
-import { getProject } from './cmakeIntegration';
+import { spawn, ChildProcess } from 'child_process';
+import { getProject, getExecutablePath } from './cmakeIntegration';
 import { ensureBuilt } from './buildManager';
-import { getGtestFilter, getEnv, getGtestFlags, getMiDebuggerPath, getEnvFile } from './config';
-import { testStore, TestStatus } from './testStore';
+import {
+  getGtestFilter,
+  getEnv,
+  getGtestFlags,
+  getMiDebuggerPath,
+  getEnvFile,
+  getRunTimeout,
+  getTestTimeout,
+  getParallelExecution,
+  getParallelWorkers,
+  getMaxConcurrentExecutables
+} from './config';
+import { logInfo } from './log';
+import { testStore, TestResultUpdate } from './testStore';
 import { GTestTreeNode } from './testTree';
-import { appendTestRun } from './gtestOutputChannel';
+import { beginTestRun, TestRunOutput } from './gtestOutputChannel';
+import {
+  buildFilter,
+  namesMatching,
+  compilePattern,
+  isPattern,
+  isDisabledName,
+  ALSO_RUN_DISABLED_FLAG
+} from './gtestFilter';
+import { splitOutputByTest, outputForTest, GTestLineParser } from './gtestOutputParser';
+import { newReportPath, hasOutputFlag, readReport, resultsForNames } from './gtestReport';
 
-/** Get executable path for a target from code model (artifacts). */
-function getExecutablePath(
-  project: { codeModel: unknown },
-  targetName: string
-): string | undefined {
-  const codeModel = project.codeModel as {
-    configurations?: Array<{
-      projects?: Array<{
-        targets?: Array<{
-          name: string;
-          type: string;
-          artifacts?: string[];
-        }>;
-      }>;
-    }>;
-  };
-  if (!codeModel?.configurations?.[0]?.projects) return undefined;
-  for (const proj of codeModel.configurations[0].projects) {
-    for (const target of proj.targets || []) {
-      if (target.name === targetName && target.artifacts?.length) {
-        return target.artifacts[0];
-      }
-    }
+/** Modification time (ms) of a file, or undefined if it cannot be read. */
+function getFileMtime(filePath: string): number | undefined {
+  try {
+    return fs.statSync(filePath).mtimeMs;
+  } catch {
+    return undefined;
   }
-  return undefined;
 }
 
 /** Resolve ${workspaceFolder} in a path from launch.json. */
@@ -79,63 +85,121 @@ function getMatchingLaunchConfig(
   return undefined;
 }
 
-/** Build GTest filter from test full names (e.g. Suite1.Test1:Suite2.Test2). */
-function buildFilter(fullNames: string[]): string {
-  if (fullNames.length === 0) return '*';
-  return fullNames.join(':');
+/** Captured output of a finished test process. */
+interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  /** stdout and stderr interleaved in arrival order. */
+  output: string;
+  exitCode: number;
+}
+
+/** Kill a spawned test process and its children (tests may start helper processes). */
+function killProcessTree(proc: ChildProcess): void {
+  if (proc.pid === undefined) {
+    return;
+  }
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(proc.pid), '/T', '/F']);
+    return;
+  }
+  try {
+    // Spawned detached, so the process leads its own group: kill the whole group
+    process.kill(-proc.pid, 'SIGKILL');
+  } catch {
+    proc.kill('SIGKILL');
+  }
 }
 
-/** Run executable with args and env; capture stdout/stderr. */
+/**
+ * Run executable with args and env; capture stdout/stderr (and both interleaved, in arrival order).
+ * onOutput receives every chunk as it arrives, for live parsing and streaming to the output channel.
+ * Cancelling the token kills the process tree.
+ */
 function runProcess(
   executablePath: string,
   args: string[],
   env: Record<string, string>,
-  cwd: string
-): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  cwd: string,
+  onOutput?: (chunk: string) => void,
+  token?: vscode.CancellationToken
+): Promise<ProcessResult> {
   return new Promise((resolve) => {
     const mergedEnv = { ...process.env, ...env };
     const proc = spawn(executablePath, args, {
       cwd,
       env: mergedEnv,
-      shell: false
+      shell: false,
+      detached: process.platform !== 'win32'
     });
     let stdout = '';
     let stderr = '';
-    proc.stdout?.on('data', (d) => (stdout += d.toString()));
-    proc.stderr?.on('data', (d) => (stderr += d.toString()));
+    let output = '';
+    const cancel = token?.onCancellationRequested(() => killProcessTree(proc));
+    proc.stdout?.on('data', (d) => {
+      const text = d.toString();
+      stdout += text;
+      output += text;
+      onOutput?.(text);
+    });
+    proc.stderr?.on('data', (d) => {
+      const text = d.toString();
+      stderr += text;
+      output += text;
+      onOutput?.(text);
+    });
+    proc.on('error', (err) => {
+      stderr += err.message;
+      output += err.message;
+    });
     proc.on('close', (code) => {
+      cancel?.dispose();
       resolve({
         stdout,
         stderr,
+        output,
         exitCode: code ?? -1
       });
     });
   });
 }
 
-/** Parse GTest output to detect passed/failed per test (optional; we can set from exit code for single test). */
+/**
+ * Parse GTest console output to detect passed/failed/skipped per test.
+ * Fallback for runs without a JSON report (e.g. the executable crashed before writing it).
+ */
 function parseGTestOutput(
   stdout: string,
   stderr: string,
   executable: string,
   fullNames: string[]
-): Array<{ fullName: string; status: TestStatus }> {
+): TestResultUpdate[] {
   const output = stdout + '\n' + stderr;
-  const results: Array<{ fullName: string; status: TestStatus }> = [];
+  const results: TestResultUpdate[] = [];
   const failed = new Set<string>();
   const passed = new Set<string>();
+  const skipped = new Set<string>();
   const lines = output.split(/\r?\n/);
   for (const line of lines) {
-    const failMatch = line.match(/\[\s*FAILED\s*\]\s+(\S+)/);
+    // Per-test lines: "[       OK ] Suite.Test (0 ms)", "[  FAILED  ] Suite.Test, where GetParam() = 1"
+    const failMatch = line.match(/\[\s*FAILED\s*\]\s+([^\s,]+)/);
     if (failMatch) failed.add(failMatch[1]);
-    const passMatch = line.match(/\[\s*PASSED\s*\]\s+(\S+)/);
+    const passMatch = line.match(/\[\s*OK\s*\]\s+([^\s,]+)/);
     if (passMatch) passed.add(passMatch[1]);
+    // GTEST_SKIP(): "[  SKIPPED ] Suite.Test (0 ms)"
+    const skipMatch = line.match(/\[\s*SKIPPED\s*\]\s+([^\s,]+)/);
+    if (skipMatch) {
+      skipped.add(skipMatch[1]);
+    }
   }
+  // Wildcard names (TEST_P, TYPED_TEST) fail if any matching instance failed
   for (const fullName of fullNames) {
-    if (failed.has(fullName)) {
+    if (namesMatching(fullName, failed).length > 0) {
       results.push({ fullName, status: 'failed' });
-    } else if (passed.has(fullName)) {
+    } else if (namesMatching(fullName, passed).length > 0) {
       results.push({ fullName, status: 'passed' });
+    } else if (namesMatching(fullName, skipped).length > 0) {
+      results.push({ fullName, status: 'ignored' });
     } else {
       results.push({ fullName, status: 'none' });
     }
@@ -143,6 +207,212 @@ function parseGTestOutput(
   return results;
 }
 
+/** Why a run was stopped before the executable finished on its own. */
+interface StopReason {
+  kind: 'cancelled' | 'timedOut';
+  /** Tests that were running when the run was stopped (from the last [ RUN ] line of each process). */
+  tests: string[];
+}
+
+/** Starts one test process; onOutput receives its output chunks as they arrive. */
+type ProcessStarter = (onOutput: (chunk: string) => void) => Promise<ProcessResult>;
+
+/**
+ * Run the processes (one, or one per shard) while parsing their output live: tests flip to
+ * running / passed / failed as their [ RUN ] / [ OK ] / [ FAILED ] lines arrive, and progress
+ * shows N/M tests done. A single process streams to the run's GTest channel section as it runs;
+ * shards each append their own output when they finish. Final results still come from the reports.
+ * Enforces the run and per-test timeouts by cancelling `stop`, which kills the processes.
+ */
+async function runWithLiveStatus(
+  workspaceFolder: vscode.WorkspaceFolder,
+  executable: string,
+  fullNames: string[],
+  progress: vscode.Progress<{ message?: string; increment?: number }>,
+  stop: vscode.CancellationTokenSource,
+  starters: ProcessStarter[],
+  channel: TestRunOutput
+): Promise<{ results: ProcessResult[]; stopped?: StopReason }> {
+  let total = 0;
+  let done = 0;
+  let stopped: StopReason | undefined;
+  const parsers: GTestLineParser[] = [];
+  const timers = new Set<NodeJS.Timeout>();
+  const runningTests = () => parsers.map((p) => p.currentTest).filter((t): t is string => !!t);
+  const halt = (kind: StopReason['kind']) => {
+    if (!stopped) {
+      stopped = { kind, tests: runningTests() };
+    }
+    stop.cancel();
+  };
+  // Plain names are looked up directly; only TEST_P / TYPED_TEST patterns are matched one by one
+  const requestedNames = new Set(fullNames.filter((fn) => !isPattern(fn)));
+  const requestedPatterns = fullNames.filter(isPattern).map((fn) => ({ fn, matches: compilePattern(fn) }));
+  const requestedFor = (name: string) => [
+    ...(requestedNames.has(name) ? [name] : []),
+    ...requestedPatterns.filter((p) => p.matches(name)).map((p) => p.fn)
+  ];
+  const testTimeoutMs = getTestTimeout(workspaceFolder) * 1000;
+  const newParser = () => {
+    let testTimer: NodeJS.Timeout | undefined;
+    const clearTestTimer = () => {
+      if (testTimer) {
+        timers.delete(testTimer);
+      }
+      clearTimeout(testTimer);
+    };
+    return new GTestLineParser({
+      onTotal: (n) => {
+        total += n;
+        progress.report({ message: `${done}/${total} tests done` });
+      },
+      onTestStarted: (name) => {
+        if (testTimeoutMs > 0) {
+          clearTestTimer();
+          testTimer = setTimeout(() => halt('timedOut'), testTimeoutMs);
+          timers.add(testTimer);
+        }
+        for (const fn of requestedFor(name)) {
+          if (testStore.getStatus(workspaceFolder, executable, fn) !== 'failed') {
+            testStore.setStatus(workspaceFolder, executable, fn, 'running');
+          }
+        }
+      },
+      onTestFinished: (name, result) => {
+        clearTestTimer();
+        done++;
+        progress.report({ message: `${done}/${total} tests done`, increment: total > 0 ? 100 / total : 0 });
+        for (const fn of requestedFor(name)) {
+          // Wildcard names cover several instances: only a failure is final before the run ends
+          if (result === 'failed') {
+            testStore.setStatus(workspaceFolder, executable, fn, 'failed');
+          } else if (fn === name) {
+            testStore.setStatus(workspaceFolder, executable, fn, result === 'passed' ? 'passed' : 'ignored');
+          }
+        }
+      }
+    });
+  };
+  const runTimeoutMs = getRunTimeout(workspaceFolder) * 1000;
+  if (runTimeoutMs > 0) {
+    timers.add(setTimeout(() => halt('timedOut'), runTimeoutMs));
+  }
+  const cancelled = stop.token.onCancellationRequested(() => {
+    if (!stopped) {
+      stopped = { kind: 'cancelled', tests: runningTests() };
+    }
+  });
+  const stream = starters.length === 1;
+  try {
+    const results = await Promise.all(
+      starters.map(async (start, i) => {
+        const parser = newParser();
+        parsers.push(parser);
+        const result = await start((chunk) => {
+          parser.feed(chunk);
+          if (stream) {
+            channel.append(chunk);
+          }
+        });
+        parser.end();
+        if (!stream) {
+          channel.append(shardOutput(i, starters.length, result.output));
+        }
+        return result;
+      })
+    );
+    return { results, stopped };
+  } finally {
+    timers.forEach((t) => clearTimeout(t));
+    cancelled.dispose();
+  }
+}
+
+/** Output of one shard with a header line, as shown in the channel and stored per test. */
+function shardOutput(index: number, count: number, output: string): string {
+  const body = output.endsWith('\n') ? output : output + '\n';
+  return `---------- shard ${index + 1}/${count} ----------\n${body}`;
+}
+
+/**
+ * Number of shards for a run with this many workers: never more shards than requested tests when
+ * all names are exact (no wildcards), and at least one.
+ */
+export function shardCount(workers: number, fullNames: string[]): number {
+  const limit = fullNames.some(isPattern) ? workers : Math.min(workers, fullNames.length);
+  return Math.max(1, limit);
+}
+
+/** Number of processes to start for a run: 1 unless parallel execution is enabled. */
+function shardCountFor(workspaceFolder: vscode.WorkspaceFolder, fullNames: string[]): number {
+  if (!getParallelExecution(workspaceFolder)) {
+    return 1;
+  }
+  return shardCount(getParallelWorkers(workspaceFolder), fullNames);
+}
+
+/** Cancellation sources of runs in progress (for the Cancel command). */
+const activeRuns = new Set<vscode.CancellationTokenSource>();
+
+/**
+ * Cancel all test runs in progress (kills their processes).
+ * @returns Number of runs that were cancelled
+ */
+export function cancelRunningTests(): number {
+  const count = activeRuns.size;
+  for (const source of activeRuns) {
+    source.cancel();
+  }
+  return count;
+}
+
+/** Options for a test run. */
+export interface RunOptions {
+  /** Cancels the run (e.g. from the Testing view). */
+  token?: vscode.CancellationToken;
+  /** Caller already built the executable (e.g. Run All builds every target once up front). */
+  skipBuild?: boolean;
+  /** GTest flags added after the configured ones (e.g. --gtest_repeat=N for a stress test). */
+  extraFlags?: string[];
+  /** Exact --gtest_filter and flags to use instead of composing them from settings (Rerun Last Run). */
+  exactArgs?: { filter: string; flags: string[] };
+  /** Environment added to gtest-plugin.env for the test processes (e.g. LLVM_PROFILE_FILE for coverage). */
+  env?: Record<string, string>;
+}
+
+/** The last user-initiated run (see rememberLastRun), with exact args so it can be replayed as is. */
+let lastRun: ExecutableTests[] | undefined;
+
+/** --gtest_filter and flags for running these tests with the current settings. */
+function composeArgs(
+  workspaceFolder: vscode.WorkspaceFolder,
+  fullNames: string[],
+  extraFlags: string[] = []
+): { filter: string; flags: string[] } {
+  const baseFilter = getGtestFilter(workspaceFolder);
+  const filter = buildFilter(fullNames);
+  return {
+    filter: baseFilter ? `${filter}${baseFilter.startsWith('-') ? '' : ':' + baseFilter}` : filter,
+    flags: [...getGtestFlags(workspaceFolder), ...extraFlags]
+  };
+}
+
+/**
+ * Remember a user-initiated run (one executable, a group or Run All) for Rerun Last Run, with the
+ * filter and flags composed from the current settings. Commands call this; runs the user did not
+ * start as such (watch mode, coverage) are not remembered.
+ */
+export function rememberLastRun(targets: ExecutableTests[], extraFlags?: string[]): void {
+  const runnable = targets.filter((t) => t.fullNames.length > 0);
+  if (runnable.length === 0) {
+    return;
+  }
+  lastRun = runnable.map((t) => ({
+    ...t,
+    exactArgs: t.exactArgs ?? composeArgs(t.folder, t.fullNames, extraFlags)
+  }));
+}
+
 /**
  * Run tests by executable and list of full test names.
  * Used by both tree (run suite/executable) and code lens (run single test).
@@ -151,64 +421,278 @@ export async function runTestsWithNames(
   context: vscode.ExtensionContext,
   workspaceFolder: vscode.WorkspaceFolder,
   executable: string,
-  fullNames: string[]
-): Promise<void> {
-  if (fullNames.length === 0) return;
+  fullNames: string[],
+  options: RunOptions = {}
+): Promise<TestResultUpdate[] | undefined> {
+  if (fullNames.length === 0) {
+    return undefined;
+  }
   const project = await getProject(workspaceFolder);
   if (!project) {
     vscode.window.showErrorMessage('CMake project not available.');
-    return;
+    return undefined;
+  }
+  if (!options.skipBuild && !(await ensureBuilt(context, workspaceFolder, [executable]))) {
+    return undefined;
   }
-  await ensureBuilt(context, workspaceFolder, [executable]);
   const exePath = getExecutablePath(project, executable);
   if (!exePath) {
     vscode.window.showErrorMessage(`Executable not found for target: ${executable}`);
-    return;
+    return undefined;
   }
-  const baseFilter = getGtestFilter();
-  const filter = buildFilter(fullNames);
-  const finalFilter = baseFilter ? `${filter}${baseFilter.startsWith('-') ? '' : ':' + baseFilter}` : filter;
-  const args = [`--gtest_filter=${finalFilter}`, ...getGtestFlags()];
-  const env = getEnv();
+  const { filter: finalFilter, flags } =
+    options.exactArgs ?? composeArgs(workspaceFolder, fullNames, options.extraFlags);
+  const args = [`--gtest_filter=${finalFilter}`, ...flags];
+  const env = { ...getEnv(workspaceFolder), ...options.env };
   const buildDir = await project.getBuildDirectory();
   const cwd = buildDir || path.dirname(exePath);
-  for (const fn of fullNames) {
-    testStore.setStatus(executable, fn, 'running');
-  }
-  const result = await runProcess(exePath, args, env, cwd);
-  const parsed = parseGTestOutput(
-    result.stdout,
-    result.stderr,
+  // One process, or N shards of the same binary (GTEST_TOTAL_SHARDS / GTEST_SHARD_INDEX).
+  // Each writes its own temporary JSON report, unless the user writes their own.
+  const shardCount = shardCountFor(workspaceFolder, fullNames);
+  const stop = new vscode.CancellationTokenSource();
+  const shards = Array.from({ length: shardCount }, (_, i) => {
+    const reportPath = hasOutputFlag(flags) ? undefined : newReportPath();
+    const shardArgs = reportPath ? [...args, `--gtest_output=json:${reportPath}`] : args;
+    const shardEnv =
+      shardCount > 1
+        ? { ...env, GTEST_TOTAL_SHARDS: String(shardCount), GTEST_SHARD_INDEX: String(i) }
+        : env;
+    const start: ProcessStarter = (onOutput) =>
+      runProcess(exePath, shardArgs, shardEnv, cwd, onOutput, stop.token);
+    return { reportPath, start };
+  });
+  testStore.setStatusBulk(
+    workspaceFolder,
     executable,
-    fullNames
+    fullNames.map((fullName) => ({ fullName, status: 'queued' }))
   );
-  testStore.setStatusBulk(executable, parsed.map((p) => ({ fullName: p.fullName, status: p.status })));
-  const combined = result.stdout + '\n' + result.stderr;
+  const channel = beginTestRun(executable, fullNames);
+  if (shardCount > 1) {
+    logInfo(`Running ${executable} in ${shardCount} shards`);
+  }
+  const external = options.token?.onCancellationRequested(() => stop.cancel());
+  activeRuns.add(stop);
+  let run: { results: ProcessResult[]; stopped?: StopReason };
+  try {
+    run = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: shardCount > 1 ? `GTest: ${executable} (${shardCount} shards)` : `GTest: ${executable}`,
+        cancellable: true
+      },
+      (progress, progressToken) => {
+        progressToken.onCancellationRequested(() => stop.cancel());
+        return runWithLiveStatus(
+          workspaceFolder,
+          executable,
+          fullNames,
+          progress,
+          stop,
+          shards.map((sh) => sh.start),
+          channel
+        );
+      }
+    );
+  } catch (e) {
+    // Close the run's section, or later runs would wait for it forever
+    channel.end(-1);
+    throw e;
+  } finally {
+    activeRuns.delete(stop);
+    external?.dispose();
+    stop.dispose();
+  }
+  const { results, stopped } = run;
+  const output =
+    shardCount > 1
+      ? results.map((r, i) => shardOutput(i, shardCount, r.output)).join('')
+      : results[0].output;
+  channel.end(results.find((r) => r.exitCode !== 0)?.exitCode ?? 0);
+  // Merge shard reports; if any shard wrote none (crash, kill), parse the console output instead
+  const reports = shards.map((sh) => (sh.reportPath ? readReport(sh.reportPath) : undefined));
+  let parsed = reports.every((r) => r !== undefined)
+    ? resultsForNames(fullNames, reports.flatMap((r) => r ?? []))
+    : parseGTestOutput(
+        results.map((r) => r.stdout).join('\n'),
+        results.map((r) => r.stderr).join('\n'),
+        executable,
+        fullNames
+      );
+  if (!flags.some((f) => f.startsWith(ALSO_RUN_DISABLED_FLAG))) {
+    // GTest does not run DISABLED_ tests (NOTRUN in the report, nothing on the console)
+    parsed = parsed.map((p) =>
+      p.status === 'none' && isDisabledName(p.fullName) ? { ...p, status: 'ignored' as const } : p
+    );
+  }
+  if (stopped) {
+    // A killed run writes no report: the tests that were running timed out (or were cancelled)
+    parsed = parsed.map((p) =>
+      stopped.kind === 'timedOut' && namesMatching(p.fullName, stopped.tests).length > 0
+        ? { ...p, status: 'timedOut' as const }
+        : p
+    );
+    const what = stopped.tests.length > 0 ? ` (while running ${stopped.tests.join(', ')})` : '';
+    if (stopped.kind === 'timedOut') {
+      vscode.window.showWarningMessage(`GTest run of ${executable} timed out${what}.`);
+    } else {
+      vscode.window.showInformationMessage(`GTest run of ${executable} cancelled${what}.`);
+    }
+  }
+  // Same binary mtime across runs = same build; used to tell flaky tests from real regressions
+  const binaryMtime = getFileMtime(exePath);
+  parsed = parsed.map((p) => ({ ...p, binaryMtime }));
+  testStore.setStatusBulk(workspaceFolder, executable, parsed);
+  // Each test keeps only its own section (plus global setup/teardown), not the whole run log
+  const split = splitOutputByTest(output);
   for (const fn of fullNames) {
-    testStore.setOutput(executable, fn, combined);
+    testStore.setOutput(workspaceFolder, executable, fn, outputForTest(fn, split));
+  }
+  return parsed;
+}
+
+/** Tests of one executable to run (e.g. everything under an executable node). */
+export interface ExecutableTests {
+  folder: vscode.WorkspaceFolder;
+  executable: string;
+  fullNames: string[];
+  /** Exact --gtest_filter and flags instead of those from settings (Rerun Last Run). */
+  exactArgs?: { filter: string; flags: string[] };
+}
+
+/** Aggregated outcome of running several executables. */
+export interface RunSummary {
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Tests without a result (not run, cancelled or timed out). */
+  other: number;
+  durationMs: number;
+}
+
+/**
+ * Run all given executables: build every target once (one build per workspace folder), then run
+ * up to gtest-plugin.maxConcurrentExecutables of them at the same time.
+ * Executables of a folder whose build failed are not run.
+ * @returns Summary, or undefined if every build failed (nothing was run)
+ */
+export async function runAllTests(
+  context: vscode.ExtensionContext,
+  targets: ExecutableTests[],
+  token?: vscode.CancellationToken
+): Promise<RunSummary | undefined> {
+  const started = Date.now();
+  const summary: RunSummary = { passed: 0, failed: 0, skipped: 0, other: 0, durationMs: 0 };
+  const queue = targets.filter((t) => t.fullNames.length > 0);
+  if (queue.length === 0) {
+    return summary;
   }
-  appendTestRun(executable, fullNames, combined);
+  // Registered as an active run so Cancel also drops executables that have not started yet
+  const all = new vscode.CancellationTokenSource();
+  const external = token?.onCancellationRequested(() => all.cancel());
+  activeRuns.add(all);
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      if (all.token.isCancellationRequested) {
+        return;
+      }
+      const results = await runTestsWithNames(context, next.folder, next.executable, next.fullNames, {
+        token: all.token,
+        skipBuild: true,
+        exactArgs: next.exactArgs
+      });
+      for (const r of results ?? []) {
+        if (r.status === 'passed') {
+          summary.passed++;
+        }
+        else if (r.status === 'failed') {
+          summary.failed++;
+        }
+        else if (r.status === 'ignored') {
+          summary.skipped++;
+        }
+        else {
+          summary.other++;
+        }
+      }
+    }
+  };
+  try {
+    const byFolder = new Map<string, ExecutableTests[]>();
+    for (const t of queue) {
+      const key = t.folder.uri.toString();
+      byFolder.set(key, [...(byFolder.get(key) ?? []), t]);
+    }
+    for (const group of byFolder.values()) {
+      const built = await ensureBuilt(context, group[0].folder, group.map((t) => t.executable));
+      if (!built) {
+        group.forEach((t) => queue.splice(queue.indexOf(t), 1));
+      }
+    }
+    if (queue.length === 0) {
+      return undefined;
+    }
+    const workers = Math.max(1, Math.min(getMaxConcurrentExecutables(), queue.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+  } finally {
+    activeRuns.delete(all);
+    external?.dispose();
+    all.dispose();
+  }
+  summary.durationMs = Date.now() - started;
+  return summary;
+}
+
+/**
+ * Run the last remembered run again: the same executables with the same filter and flags
+ * (settings changed since then are not applied). Executables are rebuilt if needed.
+ * @returns Summary, or undefined if nothing has run yet in this session or every build failed
+ */
+export async function rerunLastRun(
+  context: vscode.ExtensionContext
+): Promise<RunSummary | undefined> {
+  if (!lastRun) {
+    vscode.window.showInformationMessage('No GTest run to repeat yet.');
+    return undefined;
+  }
+  for (const { executable, exactArgs } of lastRun) {
+    logInfo(`Rerunning last run: ${executable} --gtest_filter=${exactArgs?.filter} ${exactArgs?.flags.join(' ') ?? ''}`);
+  }
+  return runAllTests(context, lastRun);
 }
 
-/** Run tests from tree node (suite/executable/test). */
+/** Keep only the tests whose last result in testStore is 'failed'; executables without failures are dropped. */
+export function failedTestsOf(targets: ExecutableTests[]): ExecutableTests[] {
+  return targets
+    .map((t) => ({
+      ...t,
+      fullNames: t.fullNames.filter((fn) => testStore.getStatus(t.folder, t.executable, fn) === 'failed')
+    }))
+    .filter((t) => t.fullNames.length > 0);
+}
+
+/** Run tests from tree node (suite/executable/test) in the node's workspace folder. */
 export async function runTests(
   context: vscode.ExtensionContext,
-  workspaceFolder: vscode.WorkspaceFolder,
   node: GTestTreeNode,
   treeProvider: { getTestFullNamesUnder: (n: GTestTreeNode) => string[] }
 ): Promise<void> {
   const fullNames = treeProvider.getTestFullNamesUnder(node);
-  await runTestsWithNames(context, workspaceFolder, node.executable, fullNames);
+  rememberLastRun([{ folder: node.folder, executable: node.executable, fullNames }]);
+  await runTestsWithNames(context, node.folder, node.executable, fullNames);
 }
 
 /**
  * Start debugging tests by executable and full test names.
+ * Debugging only DISABLED_ tests (e.g. a disabled test or suite node) adds
+ * --gtest_also_run_disabled_tests, since GTest would skip all of them otherwise.
+ * @param extraFlags Added after gtest-plugin.gtestFlags (like runTestsWithNames' extraFlags)
  */
 export async function debugTestsWithNames(
   context: vscode.ExtensionContext,
   workspaceFolder: vscode.WorkspaceFolder,
   executable: string,
-  fullNames: string[]
+  fullNames: string[],
+  extraFlags: string[] = []
 ): Promise<void> {
   if (fullNames.length === 0) return;
   const project = await getProject(workspaceFolder);
@@ -216,15 +700,23 @@ export async function debugTestsWithNames(
     vscode.window.showErrorMessage('CMake project not available.');
     return;
   }
-  await ensureBuilt(context, workspaceFolder, [executable]);
+  if (!(await ensureBuilt(context, workspaceFolder, [executable]))) {
+    return;
+  }
   const exePath = getExecutablePath(project, executable);
   if (!exePath) {
     vscode.window.showErrorMessage(`Executable not found for target: ${executable}`);
     return;
   }
   const filter = buildFilter(fullNames);
-  const args = [`--gtest_filter=${filter}`, ...getGtestFlags()];
-  const env = getEnv();
+  const alsoDisabled = fullNames.every(isDisabledName) && !extraFlags.includes(ALSO_RUN_DISABLED_FLAG);
+  const args = [
+    `--gtest_filter=${filter}`,
+    ...getGtestFlags(workspaceFolder),
+    ...extraFlags,
+    ...(alsoDisabled ? [ALSO_RUN_DISABLED_FLAG] : [])
+  ];
+  const env = getEnv(workspaceFolder);
   const envArray = Object.entries(env).map(([k, v]) => ({ name: k, value: v }));
   const cwd = (await project.getBuildDirectory()) || path.dirname(exePath);
   const config: vscode.DebugConfiguration = {
@@ -237,7 +729,7 @@ export async function debugTestsWithNames(
     environment: envArray
   };
   // Custom GDB path and env file: from our settings first, then from a matching launch.json
-  const pluginGdb = getMiDebuggerPath();
+  const pluginGdb = getMiDebuggerPath(workspaceFolder);
   const pluginEnvFile = getEnvFile(workspaceFolder);
   if (pluginGdb) config.miDebuggerPath = pluginGdb;
   if (pluginEnvFile) config.envFile = pluginEnvFile;
@@ -254,10 +746,9 @@ export async function debugTestsWithNames(
 /** Start debugging tests from tree node. */
 export async function debugTests(
   context: vscode.ExtensionContext,
-  workspaceFolder: vscode.WorkspaceFolder,
   node: GTestTreeNode,
   treeProvider: { getTestFullNamesUnder: (n: GTestTreeNode) => string[] }
 ): Promise<void> {
   const fullNames = treeProvider.getTestFullNamesUnder(node);
-  await debugTestsWithNames(context, workspaceFolder, node.executable, fullNames);
+  await debugTestsWithNames(context, node.folder, node.executable, fullNames);
 }
@@ -1,13 +1,20 @@
 /**
- * Scans source files for GTest macros: TEST, TEST_F, TEST_P.
- * Extracts test suite name, test name, and line number for each test.
+ * Scans source files for GTest macros: TEST, TEST_F, TEST_P, TYPED_TEST, TYPED_TEST_P
+ * and the INSTANTIATE_* macros for parameterized suites.
+ * Extracts test suite name, test name, line number and name column range for each test.
+ * Uses the tokenizer in cppTokenizer.ts, so comments, strings and inactive #if regions are skipped
+ * and macro arguments may span several lines.
  */
 
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import { tokenize, Token } from './cppTokenizer';
 
-/** Kind of GTest macro: TEST (no fixture), TEST_F (fixture), TEST_P (parameterized). */
-export type TestKind = 'TEST' | 'TEST_F' | 'TEST_P';
+/**
+ * Kind of GTest macro: TEST (no fixture), TEST_F (fixture), TEST_P (parameterized),
+ * TYPED_TEST (typed), TYPED_TEST_P (type-parameterized).
+ */
+export type TestKind = 'TEST' | 'TEST_F' | 'TEST_P' | 'TYPED_TEST' | 'TYPED_TEST_P';
 
 /** Single test definition found in a source file. */
 export interface ScannedTest {
@@ -17,10 +24,17 @@ export interface ScannedTest {
   testName: string;
   /** Line number (1-based) where the macro starts. */
   line: number;
+  /** Location of the test name argument: 1-based line, 0-based start/end columns. */
+  nameRange: { line: number; startColumn: number; endColumn: number };
   /** Which macro was used. */
   kind: TestKind;
-  /** Full test id as GTest reports: SuiteName.TestName (or SuiteName/TestName/0 for param). */
+  /**
+   * Full test id as used in --gtest_filter: SuiteName.TestName, or a wildcard pattern matching
+   * every instance GTest reports (e.g. *\/Suite.Test/* for TEST_P, Suite/*.Test for TYPED_TEST).
+   */
   fullName: string;
+  /** Instantiation prefixes found in the same file (TEST_P / TYPED_TEST_P only). */
+  instantiations?: string[];
 }
 
 /** Result of scanning one file: file path and list of tests. */
@@ -31,36 +45,145 @@ export interface ScannedFile {
   tests: ScannedTest[];
 }
 
-// Regex for TEST(Suite, Test) - suite and test are C++ identifiers (letters, digits, underscore)
-// Captures: (1)=Suite, (2)=Test. Handles possible line continuation and spaces.
-const TEST_REGEX = /^\s*TEST\s*\(\s*(\w+)\s*,\s*(\w+)\s*\)/gm;
-const TEST_F_REGEX = /^\s*TEST_F\s*\(\s*(\w+)\s*,\s*(\w+)\s*\)/gm;
-const TEST_P_REGEX = /^\s*TEST_P\s*\(\s*(\w+)\s*,\s*(\w+)\s*\)/gm;
+/** Test-defining macros and the kind they produce. */
+const TEST_MACROS = new Map<string, TestKind>([
+  ['TEST', 'TEST'],
+  ['TEST_F', 'TEST_F'],
+  ['TEST_P', 'TEST_P'],
+  ['TYPED_TEST', 'TYPED_TEST'],
+  ['TYPED_TEST_P', 'TYPED_TEST_P']
+]);
+
+/** INSTANTIATE_TEST_SUITE_P(Prefix, Suite, ...) and the typed / legacy *_CASE_P spellings. */
+const INSTANTIATE_MACROS = new Set([
+  'INSTANTIATE_TEST_SUITE_P',
+  'INSTANTIATE_TEST_CASE_P',
+  'INSTANTIATE_TYPED_TEST_SUITE_P',
+  'INSTANTIATE_TYPED_TEST_CASE_P'
+]);
 
 /**
- * Find all matches of a regex in text and return line numbers.
- * VS Code uses 1-based line numbers.
+ * Filter pattern GTest uses for the instances of a test defined with the given macro.
+ * TEST_P instances are Prefix/Suite.Test/N, TYPED_TEST are Suite/N.Test,
+ * TYPED_TEST_P are Prefix/Suite/N.Test.
  */
-function findMatches(
-  text: string,
-  regex: RegExp,
-  kind: TestKind
-): Array<{ suiteName: string; testName: string; line: number }> {
-  const results: Array<{ suiteName: string; testName: string; line: number }> = [];
-  const lines = text.split(/\r?\n/);
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    regex.lastIndex = 0;
-    const m = regex.exec(line);
-    if (m) {
-      results.push({
-        suiteName: m[1],
-        testName: m[2],
-        line: i + 1
-      });
+export function fullNameFor(kind: TestKind, suiteName: string, testName: string): string {
+  switch (kind) {
+    case 'TEST_P':
+      return `*/${suiteName}.${testName}/*`;
+    case 'TYPED_TEST':
+      return `${suiteName}/*.${testName}`;
+    case 'TYPED_TEST_P':
+      return `*/${suiteName}/*.${testName}`;
+    default:
+      return `${suiteName}.${testName}`;
+  }
+}
+
+/** A macro invocation found in the token stream: name token and its top-level arguments. */
+interface MacroCall {
+  macro: Token;
+  args: Token[][];
+}
+
+/**
+ * Find invocations of the given macros: NAME ( args... ) with arguments split at top-level commas.
+ * Arguments may span several lines; member calls like obj.TEST(...) are ignored.
+ */
+function findMacroCalls(tokens: Token[], names: (name: string) => boolean): MacroCall[] {
+  const calls: MacroCall[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const tok = tokens[i];
+    if (tok.kind !== 'identifier' || !names(tok.text)) {
+      continue;
+    }
+    if (tokens[i + 1].text !== '(') {
+      continue;
+    }
+    const prev = tokens[i - 1]?.text;
+    if (prev === '.' || prev === '>' || prev === ':') {
+      continue;
+    }
+    const args: Token[][] = [[]];
+    let depth = 0;
+    let j = i + 2;
+    for (; j < tokens.length; j++) {
+      const t = tokens[j];
+      if (t.text === '(' || t.text === '[' || t.text === '{') {
+        depth++;
+      }
+      if (t.text === ')' || t.text === ']' || t.text === '}') {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      }
+      if (t.text === ',' && depth === 0) {
+        args.push([]);
+      } else {
+        args[args.length - 1].push(t);
+      }
     }
+    if (j >= tokens.length) {
+      break;
+    }
+    calls.push({ macro: tok, args });
+    i = j;
   }
-  return results;
+  return calls;
+}
+
+/** The argument as a single identifier token, or undefined if it is anything else. */
+function identifierArg(arg: Token[] | undefined): Token | undefined {
+  return arg?.length === 1 && arg[0].kind === 'identifier' ? arg[0] : undefined;
+}
+
+/** Map: suite name -> instantiation prefixes from INSTANTIATE_*_P macros. */
+function findInstantiations(tokens: Token[]): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  for (const call of findMacroCalls(tokens, (n) => INSTANTIATE_MACROS.has(n))) {
+    const suite = identifierArg(call.args[1]);
+    if (!suite || call.args.length < 3) {
+      continue;
+    }
+    const prefix = call.args[0].map((t) => t.text).join('');
+    const list = map.get(suite.text) ?? [];
+    list.push(prefix);
+    map.set(suite.text, list);
+  }
+  return map;
+}
+
+/** Scan source text for all supported test macros (comments, strings and #if 0 regions skipped). */
+function scanText(text: string): ScannedTest[] {
+  const tokens = tokenize(text);
+  const instantiations = findInstantiations(tokens);
+  const tests: ScannedTest[] = [];
+  for (const call of findMacroCalls(tokens, (n) => TEST_MACROS.has(n))) {
+    const suite = identifierArg(call.args[0]);
+    const name = identifierArg(call.args[1]);
+    if (!suite || !name || call.args.length !== 2) {
+      continue;
+    }
+    const kind = TEST_MACROS.get(call.macro.text) as TestKind;
+    const test: ScannedTest = {
+      suiteName: suite.text,
+      testName: name.text,
+      line: call.macro.line + 1,
+      nameRange: {
+        line: name.line + 1,
+        startColumn: name.column,
+        endColumn: name.endColumn
+      },
+      kind,
+      fullName: fullNameFor(kind, suite.text, name.text)
+    };
+    if (kind === 'TEST_P' || kind === 'TYPED_TEST_P') {
+      test.instantiations = instantiations.get(suite.text) ?? [];
+    }
+    tests.push(test);
+  }
+  return tests;
 }
 
 /**
@@ -75,24 +198,7 @@ export function scanFile(filePath: string): ScannedTest[] {
   } catch {
     return [];
   }
-  const tests: ScannedTest[] = [];
-  const run = (regex: RegExp, kind: TestKind) => {
-    const matches = findMatches(content, regex, kind);
-    for (const m of matches) {
-      const fullName = `${m.suiteName}.${m.testName}`;
-      tests.push({
-        suiteName: m.suiteName,
-        testName: m.testName,
-        line: m.line,
-        kind,
-        fullName
-      });
-    }
-  };
-  run(TEST_REGEX, 'TEST');
-  run(TEST_F_REGEX, 'TEST_F');
-  run(TEST_P_REGEX, 'TEST_P');
-  return tests;
+  return scanText(content);
 }
 
 /**
@@ -123,22 +229,5 @@ export async function scanDirectory(
  * Useful for code lens: we re-scan the file when content changes so line numbers stay correct.
  */
 export function scanDocument(document: vscode.TextDocument): ScannedTest[] {
-  const text = document.getText();
-  const tests: ScannedTest[] = [];
-  const run = (regex: RegExp, kind: TestKind) => {
-    const matches = findMatches(text, regex, kind);
-    for (const m of matches) {
-      tests.push({
-        suiteName: m.suiteName,
-        testName: m.testName,
-        line: m.line,
-        kind,
-        fullName: `${m.suiteName}.${m.testName}`
-      });
-    }
-  };
-  run(TEST_REGEX, 'TEST');
-  run(TEST_F_REGEX, 'TEST_F');
-  run(TEST_P_REGEX, 'TEST_P');
-  return tests;
+  return scanText(document.getText());
 }
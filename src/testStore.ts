@@ -1,16 +1,48 @@
 /**
- * Global store for test run results (passed/failed/ignored) and test output logs.
+ * Global store for test run results (passed/failed/ignored) and test output logs, per workspace folder.
  * Used by tree view for icons and by output panel for logs.
+ * Last results and a bounded run history are persisted in workspace storage (output is not).
  */
 
 import * as vscode from 'vscode';
 import { EventEmitter } from 'events';
+import { getHistorySize } from './config';
 
-export type TestStatus = 'none' | 'running' | 'passed' | 'failed' | 'ignored';
+/**
+ * 'queued' = part of a started run but its [ RUN ] line has not arrived yet.
+ * 'timedOut' = the run was killed by the run or per-test timeout while this test was running.
+ */
+export type TestStatus = 'none' | 'queued' | 'running' | 'passed' | 'failed' | 'ignored' | 'timedOut';
 
-/** Unique key for a test: executable + full test name (e.g. Suite.Test or Suite.Test/0). */
-export function testKey(executable: string, fullName: string): string {
-  return `${executable}::${fullName}`;
+/**
+ * Unique key for a test: workspace folder + executable + full test name (e.g. Suite.Test or Suite.Test/0).
+ * The folder is part of the key because each folder of a multi-root workspace has its own project.
+ */
+export function testKey(folder: vscode.WorkspaceFolder, executable: string, fullName: string): string {
+  return `${folder.uri.toString()}|${executable}::${fullName}`;
+}
+
+/** Workspace folder of a key, if that folder is still open. */
+function folderOfKey(key: string): vscode.WorkspaceFolder | undefined {
+  const uri = key.slice(0, key.indexOf('|'));
+  return vscode.workspace.workspaceFolders?.find((f) => f.uri.toString() === uri);
+}
+
+/** One assertion failure from a GTest report (file/line when GTest reported them). */
+export interface TestFailure {
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+/** One finished run of a test, kept in the bounded per-test history. */
+export interface TestRunRecord {
+  status: TestStatus;
+  /** When the run finished (ms since epoch). */
+  time: number;
+  durationMs?: number;
+  /** Modification time of the test executable that ran (same value = same build). */
+  binaryMtime?: number;
 }
 
 /** Single test result and log. */
@@ -20,70 +52,274 @@ export interface TestResult {
   output: string;
   /** When the test was last run (for "last run" display). */
   lastRunTime?: number;
+  /** Duration of the last run in milliseconds (from the GTest report). */
+  durationMs?: number;
+  /** Assertion failures of the last run (from the GTest report). */
+  failures?: TestFailure[];
+  /** Start time GTest reported for the last run (ms since epoch). */
+  timestamp?: number;
+  /** Last runs, oldest first (at most gtest-plugin.historySize entries). */
+  history?: TestRunRecord[];
+}
+
+/** Result of one test in a run, as produced by the runner. */
+export interface TestResultUpdate {
+  fullName: string;
+  status: TestStatus;
+  durationMs?: number;
+  failures?: TestFailure[];
+  timestamp?: number;
+  /** Modification time of the executable that produced this result (for flakiness detection). */
+  binaryMtime?: number;
+}
+
+/** A stored result together with the test it belongs to. */
+export interface StoredResult {
+  folder: vscode.WorkspaceFolder;
+  executable: string;
+  fullName: string;
+  result: TestResult;
 }
 
+/** Workspace storage key for persisted results. */
+const STORAGE_KEY_RESULTS = 'gtest-plugin.testResults';
+
+/** Statuses that end a run (recorded in history and persisted). */
+const FINAL_STATUSES: TestStatus[] = ['passed', 'failed', 'ignored', 'timedOut'];
+
 class TestStoreImpl extends EventEmitter {
   private results = new Map<string, TestResult>();
+  private storage: vscode.Memento | undefined;
 
-  /** Get status for a test (executable + fullName). */
-  getStatus(executable: string, fullName: string): TestStatus {
-    const key = testKey(executable, fullName);
+  /**
+   * Load persisted results from workspace storage and keep saving to it after each run.
+   * Output logs are not persisted; in-progress states from a previous session become 'none'.
+   */
+  attachStorage(storage: vscode.Memento): void {
+    this.storage = storage;
+    const saved = storage.get<Record<string, Omit<TestResult, 'output'>>>(STORAGE_KEY_RESULTS, {});
+    for (const [key, r] of Object.entries(saved)) {
+      const status = FINAL_STATUSES.includes(r.status) ? r.status : 'none';
+      this.results.set(key, { ...r, status, output: '' });
+    }
+    this.emit('changed', undefined, '', '');
+  }
+
+  /** Save all results (without output) to workspace storage. */
+  private persist(): void {
+    if (!this.storage) {
+      return;
+    }
+    const data: Record<string, Omit<TestResult, 'output'>> = {};
+    for (const [key, r] of this.results) {
+      if (r.lastRunTime === undefined) {
+        continue;
+      }
+      const { output: _output, ...rest } = r;
+      data[key] = { ...rest, status: FINAL_STATUSES.includes(r.status) ? r.status : 'none' };
+    }
+    this.storage.update(STORAGE_KEY_RESULTS, data);
+  }
+
+  /** Get status for a test (folder + executable + fullName). */
+  getStatus(folder: vscode.WorkspaceFolder, executable: string, fullName: string): TestStatus {
+    const key = testKey(folder, executable, fullName);
     return this.results.get(key)?.status ?? 'none';
   }
 
   /** Set status for a test. */
-  setStatus(executable: string, fullName: string, status: TestStatus): void {
-    const key = testKey(executable, fullName);
+  setStatus(folder: vscode.WorkspaceFolder, executable: string, fullName: string, status: TestStatus): void {
+    const key = testKey(folder, executable, fullName);
     const prev = this.results.get(key);
     this.results.set(key, {
+      ...prev,
       status,
-      output: prev?.output ?? '',
-      lastRunTime: prev?.lastRunTime
+      output: prev?.output ?? ''
     });
-    this.emit('changed', executable, fullName);
+    this.emit('changed', folder, executable, fullName);
   }
 
   /** Set output for a test (after run). */
-  setOutput(executable: string, fullName: string, output: string): void {
-    const key = testKey(executable, fullName);
+  setOutput(folder: vscode.WorkspaceFolder, executable: string, fullName: string, output: string): void {
+    const key = testKey(folder, executable, fullName);
     const prev = this.results.get(key);
     this.results.set(key, {
+      ...prev,
       status: prev?.status ?? 'none',
       output,
       lastRunTime: Date.now()
     });
-    this.emit('changed', executable, fullName);
+    this.emit('changed', folder, executable, fullName);
   }
 
   /** Get output for a test (for "show test output" panel). */
-  getOutput(executable: string, fullName: string): string {
-    const key = testKey(executable, fullName);
+  getOutput(folder: vscode.WorkspaceFolder, executable: string, fullName: string): string {
+    const key = testKey(folder, executable, fullName);
     return this.results.get(key)?.output ?? '';
   }
 
-  /** Set status for multiple tests (e.g. suite or executable run). */
+  /** Get the full result (status, duration, failures) for a test, if it was ever run. */
+  getResult(folder: vscode.WorkspaceFolder, executable: string, fullName: string): TestResult | undefined {
+    return this.results.get(testKey(folder, executable, fullName));
+  }
+
+  /** All results of all executables in open workspace folders (e.g. to list flaky tests). */
+  getAllResults(): StoredResult[] {
+    const out: StoredResult[] = [];
+    for (const [key, result] of this.results) {
+      const folder = folderOfKey(key);
+      const name = key.slice(key.indexOf('|') + 1);
+      const sep = name.indexOf('::');
+      if (!folder || sep < 0) {
+        continue;
+      }
+      out.push({ folder, executable: name.slice(0, sep), fullName: name.slice(sep + 2), result });
+    }
+    return out;
+  }
+
+  /** All results of one executable (fullName + result), e.g. to refresh diagnostics after a run. */
+  getResultsFor(
+    folder: vscode.WorkspaceFolder,
+    executable: string
+  ): Array<{ fullName: string; result: TestResult }> {
+    const prefix = testKey(folder, executable, '');
+    const out: Array<{ fullName: string; result: TestResult }> = [];
+    for (const [key, result] of this.results) {
+      if (key.startsWith(prefix)) {
+        out.push({ fullName: key.slice(prefix.length), result });
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Set status for multiple tests (e.g. suite or executable run).
+   * Duration, failures and timestamp are replaced by those of the update (results from a GTest
+   * report); 'queued' and 'running' keep the previous ones until the run ends.
+   * Final statuses are appended to each test's history and persisted.
+   */
   setStatusBulk(
+    folder: vscode.WorkspaceFolder,
     executable: string,
-    entries: Array<{ fullName: string; status: TestStatus }>
+    entries: TestResultUpdate[]
   ): void {
+    const now = Date.now();
+    const historySize = getHistorySize();
     for (const e of entries) {
-      const key = testKey(executable, e.fullName);
+      const key = testKey(folder, executable, e.fullName);
       const prev = this.results.get(key);
+      const final = FINAL_STATUSES.includes(e.status);
+      const inProgress = e.status === 'queued' || e.status === 'running';
+      const history = prev?.history ?? [];
       this.results.set(key, {
         status: e.status,
         output: prev?.output ?? '',
-        lastRunTime: prev?.lastRunTime
+        lastRunTime: final ? now : prev?.lastRunTime,
+        durationMs: inProgress ? prev?.durationMs : e.durationMs,
+        failures: inProgress ? prev?.failures : e.failures,
+        timestamp: inProgress ? prev?.timestamp : e.timestamp,
+        history: final
+          ? [
+              ...history,
+              { status: e.status, time: now, durationMs: e.durationMs, binaryMtime: e.binaryMtime }
+            ].slice(-historySize)
+          : history
       });
     }
-    this.emit('changed', executable, '');
+    if (entries.some((e) => FINAL_STATUSES.includes(e.status))) {
+      this.persist();
+    }
+    this.emit('changed', folder, executable, '');
+  }
+
+  /**
+   * Add earlier runs of a test that ended together with its latest run (iterations of a
+   * --gtest_repeat run, whose report only holds the last one). They go before the latest history
+   * entry, which keeps its place as the newest; the history stays bounded by historySize.
+   */
+  addEarlierRuns(
+    folder: vscode.WorkspaceFolder,
+    executable: string,
+    fullName: string,
+    records: TestRunRecord[]
+  ): void {
+    const key = testKey(folder, executable, fullName);
+    const prev = this.results.get(key);
+    if (!prev?.history?.length || records.length === 0) {
+      return;
+    }
+    const latest = prev.history[prev.history.length - 1];
+    this.results.set(key, {
+      ...prev,
+      history: [...prev.history.slice(0, -1), ...records, latest].slice(-getHistorySize())
+    });
+    this.persist();
+    this.emit('changed', folder, executable, fullName);
   }
 
-  /** Event when any result changed (so tree can refresh icons). */
-  onChanged(cb: (executable: string, fullName: string) => void): vscode.Disposable {
-    const handler = (exec: string, full: string) => cb(exec, full);
+  /**
+   * Mark tests GTest will not run as 'ignored' (DISABLED_ tests, at scan time).
+   * Only tests without a status are changed; nothing is added to their history or persisted.
+   */
+  markIgnored(folder: vscode.WorkspaceFolder, executable: string, fullNames: string[]): void {
+    let changed = false;
+    for (const fullName of fullNames) {
+      const key = testKey(folder, executable, fullName);
+      const prev = this.results.get(key);
+      if (prev && prev.status !== 'none') {
+        continue;
+      }
+      this.results.set(key, { ...prev, status: 'ignored', output: prev?.output ?? '' });
+      changed = true;
+    }
+    if (changed) {
+      this.emit('changed', folder, executable, '');
+    }
+  }
+
+  /**
+   * Event when any result changed (so tree can refresh icons).
+   * folder is undefined when everything changed (results restored from storage).
+   */
+  onChanged(
+    cb: (folder: vscode.WorkspaceFolder | undefined, executable: string, fullName: string) => void
+  ): vscode.Disposable {
+    const handler = (folder: vscode.WorkspaceFolder | undefined, exec: string, full: string) =>
+      cb(folder, exec, full);
     this.on('changed', handler);
     return new vscode.Disposable(() => this.off('changed', handler));
   }
+
+  /**
+   * Like onChanged, but at most one call per executable every delayMs: a streamed run changes one
+   * test per [ RUN ] / [ OK ] line, and views that rebuild everything on a change must not do that
+   * thousands of times per run. folder is undefined when everything changed.
+   */
+  onChangedThrottled(
+    delayMs: number,
+    cb: (folder: vscode.WorkspaceFolder | undefined, executable: string) => void
+  ): vscode.Disposable {
+    const pending = new Map<string, { folder: vscode.WorkspaceFolder | undefined; executable: string }>();
+    let timer: NodeJS.Timeout | undefined;
+    const flush = () => {
+      timer = undefined;
+      const changes = Array.from(pending.values());
+      pending.clear();
+      changes.forEach((c) => cb(c.folder, c.executable));
+    };
+    const subscription = this.onChanged((folder, executable) => {
+      pending.set(folder ? `${folder.uri.toString()}|${executable}` : '', { folder, executable });
+      timer ??= setTimeout(flush, delayMs);
+    });
+    return new vscode.Disposable(() => {
+      subscription.dispose();
+      clearTimeout(timer);
+    });
+  }
 }
 
+/** Delay for views that refresh on result changes (see onChangedThrottled). */
+export const VIEW_REFRESH_DELAY_MS = 100;
+
 export const testStore = new TestStoreImpl();
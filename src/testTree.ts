@@ -1,47 +1,157 @@
 /**
- * Tree view for GTest: Executable -> Test Suite -> Test.
- * Shows status icons (passed/failed/ignored/none) and supports Run/Debug via context menu.
+ * Tree view for GTest: Executable -> Test Suite -> Test (or grouped by source file, by directory,
+ * or flat; see gtest-plugin.treeGrouping), under one Workspace Folder node per folder in multi-root
+ * workspaces (each folder has its own CMake project, settings and results).
+ * Shows status icons (passed/failed/ignored/none), rolled up with counts and durations on group and
+ * executable nodes, and supports Run/Debug via context menu.
  */
 
 import * as vscode from 'vscode';
-import { ScannedTest, ScannedFile, scanDirectory } from './testScanner';
-import { getExecutableSources, getProject, Project } from './cmakeIntegration';
-import { testStore, TestStatus } from './testStore';
-import { getScanDirectory, getScanIncludePattern } from './config';
+import { ScannedTest, scanDirectory } from './testScanner';
+import * as path from 'path';
+import {
+  getExecutableSources,
+  getExecutablePath,
+  getConfigurationName,
+  getGTestExecutables,
+  getProject,
+  Project
+} from './cmakeIntegration';
+import { testStore, testKey, VIEW_REFRESH_DELAY_MS, TestStatus } from './testStore';
+import {
+  getScanDirectory,
+  getScanIncludePattern,
+  getDiscoveryMode,
+  getTestExecutables,
+  getEnv,
+  getTreeGrouping,
+  TreeGrouping
+} from './config';
+import { listTestsFromExecutable, mergeWithScanned } from './testDiscovery';
+import { flakinessOf, describeFlakiness } from './flakyTests';
+import { isWatched } from './watchMode';
+import { isBuildFailed, onDidChangeBuildState } from './buildManager';
+import { TreeFilter, EMPTY_FILTER, isFilterActive, matchesFilter, isDisabledTest } from './treeFilter';
+import { isDisabledName, matchesGTestPattern } from './gtestFilter';
+import { logInfo } from './log';
 
 /** Scanned test with file path (so we can open at line). */
 type ScannedTestWithPath = ScannedTest & { filePath: string };
 
-/** Node types in the tree. */
-export type NodeKind = 'executable' | 'suite' | 'test';
+/** Test entry used to build nodes: from the scanner or from the executable listing (location optional). */
+type TreeTestEntry = {
+  suiteName: string;
+  testName: string;
+  fullName: string;
+  filePath?: string;
+  line?: number;
+  nameRange?: ScannedTest['nameRange'];
+  instantiations?: string[];
+};
+
+/** Node types in the tree ('folder' only in multi-root workspaces; 'file' / 'directory' depend on the grouping). */
+export type NodeKind = 'folder' | 'executable' | 'directory' | 'file' | 'suite' | 'test';
 
 /** Base for tree nodes (we use TreeItem with custom contextValue and store payload). */
 export interface GTestTreeNode {
   kind: NodeKind;
   /** Label shown in tree. */
   label: string;
-  /** For executable: target name. For suite: suite name. For test: fullName. */
+  /** Unique id: folder URI plus executable target name (and suite or fullName, see testKey). */
   id: string;
-  /** Executable target name (for run/debug). */
+  /** Workspace folder (CMake project) the node belongs to. */
+  folder: vscode.WorkspaceFolder;
+  /** Executable target name (for run/debug); empty for folder nodes. */
   executable: string;
   /** Test suite name (suite + test nodes). */
   suiteName?: string;
-  /** Full test name e.g. Suite.Test (test nodes). */
+  /** Full test name e.g. Suite.Test, or a GTest pattern such as *\/Suite.Test/* (test nodes). */
   fullName?: string;
-  /** Source location (test nodes). */
+  /** Extra text shown next to the label (e.g. instantiation prefixes of a TEST_P, build configuration of an executable). */
+  description?: string;
+  /** Source location (test nodes; file nodes have just the file). */
   filePath?: string;
   line?: number;
-  /** Children (for executable and suite). */
+  /** Location of the test name in source (test nodes found by the scanner). */
+  nameRange?: ScannedTest['nameRange'];
+  /** Children (for executable and group nodes). */
   children: GTestTreeNode[];
 }
 
-/** Build tree: Executable -> Suite -> Test from scanned files and CMake code model. */
-async function buildTree(
+/** Group test entries by suite name, keeping first-seen order. */
+function groupBySuite(tests: TreeTestEntry[]): Map<string, TreeTestEntry[]> {
+  const suiteMap = new Map<string, TreeTestEntry[]>();
+  for (const test of tests) {
+    const list = suiteMap.get(test.suiteName) ?? [];
+    list.push(test);
+    suiteMap.set(test.suiteName, list);
+  }
+  return suiteMap;
+}
+
+/**
+ * Executables to list with --gtest_list_tests: those with scanned test sources, those that use
+ * GoogleTest (include directories) and those matching gtest-plugin.testExecutables. Other targets
+ * are never started, since they may be arbitrary programs.
+ */
+function listedExecutables(
+  workspaceFolder: vscode.WorkspaceFolder,
+  project: Project,
+  execToScanned: Map<string, ScannedTestWithPath[]>
+): string[] {
+  const patterns = getTestExecutables(workspaceFolder);
+  const configured = Array.from(getExecutableSources(project).keys()).filter((exec) =>
+    patterns.some((p) => matchesGTestPattern(exec, p))
+  );
+  return Array.from(new Set([...execToScanned.keys(), ...getGTestExecutables(project), ...configured]));
+}
+
+/**
+ * Replace scanned tests with the names the built executable reports (--gtest_list_tests), also for
+ * test executables without scanned sources (wrapper macros, files outside scanIncludePattern).
+ * Executables that are not built yet (or fail to list) keep their scanned tests.
+ */
+async function discoverFromExecutables(
+  workspaceFolder: vscode.WorkspaceFolder,
+  project: Project,
+  execToScanned: Map<string, ScannedTestWithPath[]>
+): Promise<Map<string, TreeTestEntry[]>> {
+  const out = new Map<string, TreeTestEntry[]>(execToScanned);
+  const env = getEnv(workspaceFolder);
+  const buildDir = await project.getBuildDirectory();
+  for (const exec of listedExecutables(workspaceFolder, project, execToScanned)) {
+    const exePath = getExecutablePath(project, exec);
+    if (!exePath) {
+      continue;
+    }
+    const listed = await listTestsFromExecutable(exePath, buildDir || path.dirname(exePath), env);
+    if (!listed) {
+      logInfo(`Could not list tests from ${exePath}; using scanned tests`);
+      continue;
+    }
+    if (listed.length === 0 && !execToScanned.has(exec)) {
+      continue;
+    }
+    out.set(exec, mergeWithScanned(listed, execToScanned.get(exec) ?? []));
+  }
+  return out;
+}
+
+/** Tests of one workspace folder as discovered; kept so the grouping can change without a rescan. */
+interface DiscoveredTests {
+  folder: vscode.WorkspaceFolder;
+  /** Code model configuration the executables come from (shown next to each executable). */
+  configuration?: string;
+  execToTests: Map<string, TreeTestEntry[]>;
+}
+
+/** Discover tests per executable from scanned files and CMake code model. */
+async function discoverTests(
   workspaceFolder: vscode.WorkspaceFolder,
   project: Project
-): Promise<GTestTreeNode[]> {
+): Promise<DiscoveredTests> {
   const scanDir = getScanDirectory(workspaceFolder);
-  const pattern = getScanIncludePattern();
+  const pattern = getScanIncludePattern(workspaceFolder);
   const scannedFiles = await scanDirectory(scanDir, pattern);
   const execSources = getExecutableSources(project);
   const fileToExec = new Map<string, string>();
@@ -51,52 +161,200 @@ async function buildTree(
       fileToExec.set(norm, exec);
     }
   }
-  const execToSuites = new Map<string, Map<string, ScannedTestWithPath[]>>();
+  const execToScanned = new Map<string, ScannedTestWithPath[]>();
   for (const file of scannedFiles) {
     const normPath = file.filePath.replace(/\\/g, '/');
     const exec = fileToExec.get(normPath);
     if (!exec) continue;
-    let suiteMap = execToSuites.get(exec);
-    if (!suiteMap) {
-      suiteMap = new Map<string, ScannedTestWithPath[]>();
-      execToSuites.set(exec, suiteMap);
-    }
+    const list = execToScanned.get(exec) ?? [];
     for (const test of file.tests) {
-      const list = suiteMap.get(test.suiteName) ?? [];
       list.push({ ...test, filePath: file.filePath });
-      suiteMap.set(test.suiteName, list);
     }
+    execToScanned.set(exec, list);
+  }
+  const execToTests: Map<string, TreeTestEntry[]> =
+    getDiscoveryMode(workspaceFolder) === 'executable'
+      ? await discoverFromExecutables(workspaceFolder, project, execToScanned)
+      : execToScanned;
+  return { folder: workspaceFolder, configuration: getConfigurationName(project), execToTests };
+}
+
+/** Test node (label defaults to the test name; the flat grouping shows Suite.Test). */
+function testNode(
+  folder: vscode.WorkspaceFolder,
+  exec: string,
+  t: TreeTestEntry,
+  label = t.testName
+): GTestTreeNode {
+  return {
+    kind: 'test',
+    label,
+    id: testKey(folder, exec, t.fullName),
+    folder,
+    executable: exec,
+    suiteName: t.suiteName,
+    fullName: t.fullName,
+    filePath: t.filePath,
+    line: t.line,
+    nameRange: t.nameRange,
+    description: t.instantiations?.length ? t.instantiations.join(', ') : undefined,
+    children: []
+  };
+}
+
+/** Suite nodes for tests; ids are parentId::Suite (the executable's suites get testKey ids). */
+function suiteNodes(
+  folder: vscode.WorkspaceFolder,
+  exec: string,
+  tests: TreeTestEntry[],
+  parentId: string
+): GTestTreeNode[] {
+  return Array.from(groupBySuite(tests)).map(([suiteName, suiteTests]) => ({
+    kind: 'suite' as NodeKind,
+    label: suiteName,
+    id: `${parentId}::${suiteName}`,
+    folder,
+    executable: exec,
+    suiteName,
+    children: suiteTests.map((t) => testNode(folder, exec, t))
+  }));
+}
+
+/** Source file nodes (File -> Suite -> Test); tests without a known location go under "Unknown file". */
+function fileNodes(
+  folder: vscode.WorkspaceFolder,
+  exec: string,
+  tests: TreeTestEntry[],
+  parentId: string,
+  withDirectory: boolean
+): GTestTreeNode[] {
+  const byFile = new Map<string, TreeTestEntry[]>();
+  for (const t of tests) {
+    const list = byFile.get(t.filePath ?? '') ?? [];
+    list.push(t);
+    byFile.set(t.filePath ?? '', list);
   }
+  return Array.from(byFile).map(([filePath, fileTests]) => {
+    const id = `${parentId}#file:${filePath}`;
+    return {
+      kind: 'file' as NodeKind,
+      label: filePath ? path.basename(filePath) : 'Unknown file',
+      id,
+      folder,
+      executable: exec,
+      filePath: filePath || undefined,
+      description:
+        withDirectory && filePath ? vscode.workspace.asRelativePath(path.dirname(filePath), false) : undefined,
+      children: suiteNodes(folder, exec, fileTests, id)
+    };
+  });
+}
+
+/** Merge directories that only contain one directory into one node (like "src/core/tests"). */
+function compactDirectories(nodes: GTestTreeNode[]): void {
+  for (const node of nodes) {
+    if (node.kind !== 'directory') {
+      continue;
+    }
+    while (node.children.length === 1 && node.children[0].kind === 'directory') {
+      const only = node.children[0];
+      node.label = `${node.label}/${only.label}`;
+      node.id = only.id;
+      node.children = only.children;
+    }
+    compactDirectories(node.children);
+  }
+}
+
+/** True for a relative path that leaves its base directory ("../x", or absolute: another drive on Windows). */
+function isOutside(rel: string): boolean {
+  return rel === '..' || rel.startsWith(`..${path.sep}`) || path.isAbsolute(rel);
+}
+
+/**
+ * Directory hierarchy relative to the workspace folder, with file nodes as leaves.
+ * Files outside the folder are listed under one "External" node with their directory as description.
+ */
+export function directoryNodes(
+  folder: vscode.WorkspaceFolder,
+  exec: string,
+  tests: TreeTestEntry[],
+  parentId: string
+): GTestTreeNode[] {
   const roots: GTestTreeNode[] = [];
-  for (const [exec, suiteMap] of execToSuites) {
-    const suiteNodes: GTestTreeNode[] = [];
-    for (const [suiteName, tests] of suiteMap) {
-      const testNodes: GTestTreeNode[] = tests.map((t) => ({
-        kind: 'test' as NodeKind,
-        label: t.testName,
-        id: `${exec}::${t.fullName}`,
+  const dirs = new Map<string, GTestTreeNode>();
+  const childrenOf = (rel: string): GTestTreeNode[] => {
+    // path.dirname of a root ("/", "D:\\") is the root itself
+    if (rel === '' || rel === '.' || path.dirname(rel) === rel) {
+      return roots;
+    }
+    const existing = dirs.get(rel);
+    if (existing) {
+      return existing.children;
+    }
+    const node: GTestTreeNode = {
+      kind: 'directory',
+      label: path.basename(rel),
+      id: `${parentId}#dir:${rel}`,
+      folder,
+      executable: exec,
+      children: []
+    };
+    childrenOf(path.dirname(rel)).push(node);
+    dirs.set(rel, node);
+    return node.children;
+  };
+  let external: GTestTreeNode | undefined;
+  for (const file of fileNodes(folder, exec, tests, parentId, false)) {
+    const dir = file.filePath ? path.dirname(file.filePath) : undefined;
+    const rel = dir ? path.relative(folder.uri.fsPath, dir) : '';
+    if (dir && isOutside(rel)) {
+      external ??= {
+        kind: 'directory',
+        label: 'External',
+        id: `${parentId}#external`,
+        folder,
         executable: exec,
-        suiteName,
-        fullName: t.fullName,
-        filePath: t.filePath,
-        line: t.line,
         children: []
-      }));
-      suiteNodes.push({
-        kind: 'suite',
-        label: suiteName,
-        id: `${exec}::${suiteName}`,
-        executable: exec,
-        suiteName,
-        children: testNodes
-      });
+      };
+      file.description = dir;
+      external.children.push(file);
+    } else {
+      childrenOf(rel).push(file);
+    }
+  }
+  compactDirectories(roots);
+  if (external) {
+    roots.push(external);
+  }
+  return roots;
+}
+
+/** Build tree: Executable -> (grouping) -> Test from discovered tests. */
+function buildTree(discovered: DiscoveredTests, grouping: TreeGrouping): GTestTreeNode[] {
+  const { folder, configuration, execToTests } = discovered;
+  const roots: GTestTreeNode[] = [];
+  for (const [exec, tests] of execToTests) {
+    const id = `${folder.uri.toString()}|${exec}`;
+    let children: GTestTreeNode[];
+    if (grouping === 'file') {
+      children = fileNodes(folder, exec, tests, id, true);
+    } else if (grouping === 'directory') {
+      children = directoryNodes(folder, exec, tests, id);
+    } else if (grouping === 'flat') {
+      children = tests.map((t) => testNode(folder, exec, t, `${t.suiteName}.${t.testName}`));
+    } else {
+      children = suiteNodes(folder, exec, tests, id);
     }
     roots.push({
       kind: 'executable',
       label: exec,
-      id: exec,
+      id,
+      folder,
       executable: exec,
-      children: suiteNodes
+      // Shown next to each executable, since artifacts and sources come from this configuration
+      description: configuration,
+      children
     });
   }
   return roots;
@@ -113,17 +371,138 @@ function iconForStatus(status: TestStatus): string {
       return 'circle-slash';
     case 'running':
       return 'sync~spin';
+    case 'queued':
+      return 'history';
+    case 'timedOut':
+      return 'watch';
     default:
       return 'circle-outline'; // not run
   }
 }
 
+/** Human-readable age of a timestamp, e.g. "just now", "5 min ago", "3 h ago". */
+function formatTimeAgo(time: number): string {
+  const minutes = Math.floor((Date.now() - time) / 60000);
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes} min ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours} h ago`;
+  }
+  return `${Math.floor(hours / 24)} d ago`;
+}
+
+/** Rolled-up state of the tests under a suite or executable node (from their last results). */
+export interface NodeSummary {
+  /** failed (or timed out) > running (or queued) > passed > ignored > none. */
+  status: TestStatus;
+  total: number;
+  passed: number;
+  /** Failed or timed out. */
+  failed: number;
+  skipped: number;
+  /** Sum of the last durations of all tests. */
+  durationMs: number;
+  lastRunTime?: number;
+  slowest?: { fullName: string; durationMs: number };
+}
+
+/** Roll up the status, counts and durations of all tests under a node. */
+export function summarize(node: GTestTreeNode): NodeSummary {
+  const summary: NodeSummary = { status: 'none', total: 0, passed: 0, failed: 0, skipped: 0, durationMs: 0 };
+  let running = 0;
+  const visit = (n: GTestTreeNode) => {
+    n.children.forEach(visit);
+    if (n.kind !== 'test' || !n.fullName) {
+      return;
+    }
+    summary.total++;
+    const result = testStore.getResult(n.folder, n.executable, n.fullName);
+    const status = result?.status ?? 'none';
+    if (status === 'passed') {
+      summary.passed++;
+    }
+    else if (status === 'failed' || status === 'timedOut') {
+      summary.failed++;
+    }
+    else if (status === 'ignored') {
+      summary.skipped++;
+    }
+    else if (status === 'running' || status === 'queued') {
+      running++;
+    }
+    if (result?.lastRunTime !== undefined) {
+      summary.lastRunTime = Math.max(summary.lastRunTime ?? 0, result.lastRunTime);
+    }
+    if (result?.durationMs !== undefined) {
+      summary.durationMs += result.durationMs;
+      if (!summary.slowest || result.durationMs > summary.slowest.durationMs) {
+        summary.slowest = { fullName: n.fullName, durationMs: result.durationMs };
+      }
+    }
+  };
+  visit(node);
+  if (summary.failed > 0) {
+    summary.status = 'failed';
+  }
+  else if (running > 0) {
+    summary.status = 'running';
+  }
+  else if (summary.passed > 0) {
+    summary.status = 'passed';
+  }
+  else if (summary.skipped > 0) {
+    summary.status = 'ignored';
+  }
+  return summary;
+}
+
+/** Short counts for a node description, e.g. "12 ✓ 3 ✗ 1 ⊘ · 4.2s"; undefined if nothing has run. */
+export function describeSummary(summary: NodeSummary): string | undefined {
+  const parts: string[] = [];
+  if (summary.passed > 0) {
+    parts.push(`${summary.passed} ✓`);
+  }
+  if (summary.failed > 0) {
+    parts.push(`${summary.failed} ✗`);
+  }
+  if (summary.skipped > 0) {
+    parts.push(`${summary.skipped} ⊘`);
+  }
+  if (parts.length === 0) {
+    return undefined;
+  }
+  const duration = summary.durationMs > 0 ? ` · ${(summary.durationMs / 1000).toFixed(1)}s` : '';
+  return parts.join(' ') + duration;
+}
+
+/** Tooltip of a suite or executable: counts, last run time and slowest test. */
+function summaryTooltip(node: GTestTreeNode, summary: NodeSummary): string {
+  const lines = [
+    node.label,
+    `${summary.total} tests: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped`
+  ];
+  if (summary.lastRunTime !== undefined) {
+    lines.push(`Last run ${formatTimeAgo(summary.lastRunTime)}`);
+  }
+  if (summary.slowest) {
+    lines.push(`Slowest: ${summary.slowest.fullName} (${summary.slowest.durationMs} ms)`);
+  }
+  return lines.join('\n');
+}
+
 /** Convert our node to VS Code TreeItem. */
 function toTreeItem(node: GTestTreeNode): vscode.TreeItem {
+  // Executables and group nodes (directory, file, suite) show the rolled-up state of their tests
+  const summary = node.kind !== 'test' && node.kind !== 'folder' ? summarize(node) : undefined;
   const status =
     node.kind === 'test' && node.fullName
-      ? testStore.getStatus(node.executable, node.fullName)
-      : 'none';
+      ? testStore.getStatus(node.folder, node.executable, node.fullName)
+      : summary?.status ?? 'none';
   const icon = iconForStatus(status);
   const item = new vscode.TreeItem(
     node.label,
@@ -132,21 +511,74 @@ function toTreeItem(node: GTestTreeNode): vscode.TreeItem {
       : vscode.TreeItemCollapsibleState.None
   );
   item.id = node.id;
-  item.iconPath = new vscode.ThemeIcon(icon);
-  if (node.kind === 'executable') {
+  item.description = node.description;
+  if (node.fullName && node.fullName !== `${node.suiteName}.${node.label}`) {
+    item.tooltip = node.fullName;
+  }
+  const result =
+    node.kind === 'test' && node.fullName
+      ? testStore.getResult(node.folder, node.executable, node.fullName)
+      : undefined;
+  if (result?.lastRunTime !== undefined) {
+    // Last known state survives reloads (persisted), so say how old it is
+    const ago = `last run ${formatTimeAgo(result.lastRunTime)}`;
+    item.description = node.description ? `${node.description} · ${ago}` : ago;
+    const duration = result.durationMs !== undefined ? ` in ${result.durationMs} ms` : '';
+    const runs = result.history?.length ? ` (${result.history.length} runs recorded)` : '';
+    item.tooltip = `${node.fullName}\n${status} ${ago}${duration}${runs}`;
+  }
+  if (summary) {
+    const counts = describeSummary(summary);
+    if (counts) {
+      item.description = item.description ? `${item.description} · ${counts}` : counts;
+    }
+    item.tooltip = summaryTooltip(node, summary);
+  }
+  if (isDisabledTest(node)) {
+    item.tooltip = `${item.tooltip ?? node.fullName}\nDisabled: run it with Run Including Disabled`;
+  }
+  if (node.kind !== 'test' && isWatched(node)) {
+    item.description = item.description ? `${item.description} · watching` : 'watching';
+  }
+  const flakiness = flakinessOf(result?.history);
+  if (flakiness.flips > 0 && status !== 'running' && status !== 'queued') {
+    // Flaky tests keep a warning icon whatever their last result, so they stand out from real failures
+    item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+    item.tooltip = `${item.tooltip ?? node.fullName}\n${describeFlakiness(flakiness)}`;
+  } else {
+    item.iconPath = new vscode.ThemeIcon(icon);
+  }
+  if (node.kind === 'executable' && isBuildFailed(node.folder, node.executable)) {
+    item.iconPath = new vscode.ThemeIcon('tools', new vscode.ThemeColor('errorForeground'));
+    item.description = item.description ? `${item.description} · build failed` : 'build failed';
+    item.tooltip = `${node.label}\nLast build failed; its tests were not run. See the Problems panel.`;
+  }
+  if (node.kind === 'folder') {
+    item.iconPath = new vscode.ThemeIcon('root-folder');
+    item.contextValue = 'gtest-folder';
+  } else if (node.kind === 'executable') {
     item.contextValue = 'gtest-executable';
   } else if (node.kind === 'suite') {
     item.contextValue = 'gtest-suite';
+  } else if (node.kind === 'file') {
+    item.contextValue = 'gtest-file';
+  } else if (node.kind === 'directory') {
+    item.contextValue = 'gtest-directory';
   } else {
     item.contextValue = 'gtest-test';
   }
   if (node.filePath && node.line !== undefined) {
+    const r = node.nameRange;
     item.command = {
       command: 'vscode.open',
       title: 'Open',
       arguments: [
         vscode.Uri.file(node.filePath),
-        { selection: new vscode.Range(node.line - 1, 0, node.line - 1, 0) }
+        {
+          selection: r
+            ? new vscode.Range(r.line - 1, r.startColumn, r.line - 1, r.endColumn)
+            : new vscode.Range(node.line - 1, 0, node.line - 1, 0)
+        }
       ]
     };
   }
@@ -160,36 +592,102 @@ export class GTestTreeProvider
     GTestTreeNode | undefined | null | void
   >();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
-  private roots: GTestTreeNode[] = [];
-  private workspaceFolder: vscode.WorkspaceFolder | undefined;
-  private project: Project | undefined;
+  /** Fires after the tree was rebuilt from CMake + scan (not on status changes). */
+  private _onDidLoadTests = new vscode.EventEmitter<void>();
+  readonly onDidLoadTests = this._onDidLoadTests.event;
+  /** Discovered tests per workspace folder, in workspace order. */
+  private discovered: DiscoveredTests[] = [];
+  /** Tree per workspace folder, built from discovered with the current grouping. */
+  private folders: GTestTreeNode[] = [];
+  /** Filter applied in getChildren (see treeFilter). */
+  private filter: TreeFilter = EMPTY_FILTER;
 
   constructor() {
     // When test results change, refresh tree so icons update
-    testStore.onChanged(() => this._onDidChangeTreeData.fire());
+    testStore.onChangedThrottled(VIEW_REFRESH_DELAY_MS, () => this._onDidChangeTreeData.fire());
+    onDidChangeBuildState(() => this._onDidChangeTreeData.fire());
+  }
+
+  /** Set the workspace folders and load each folder's tree from CMake + scan. */
+  async setWorkspaceFolders(folders: readonly vscode.WorkspaceFolder[]): Promise<void> {
+    const discovered: DiscoveredTests[] = [];
+    for (const folder of folders) {
+      const project = await getProject(folder);
+      discovered.push(project ? await discoverTests(folder, project) : { folder, execToTests: new Map() });
+    }
+    // GTest never runs DISABLED_ tests by default, so they are 'ignored' rather than 'not run'
+    for (const d of discovered) {
+      for (const [exec, tests] of d.execToTests) {
+        const disabled = tests.map((t) => t.fullName).filter(isDisabledName);
+        if (disabled.length > 0) {
+          testStore.markIgnored(d.folder, exec, disabled);
+        }
+      }
+    }
+    this.discovered = discovered;
+    this.regroup();
   }
 
-  /** Set workspace and load tree from CMake + scan. */
-  async setWorkspace(folder: vscode.WorkspaceFolder): Promise<void> {
-    this.workspaceFolder = folder;
-    this.project = await getProject(folder);
-    this.roots = this.project
-      ? await buildTree(folder, this.project)
-      : [];
+  /** Rebuild the nodes from the last discovery with the current gtest-plugin.treeGrouping (no rescan). */
+  regroup(): void {
+    const grouping = getTreeGrouping();
+    this.folders = this.discovered.map((d) => ({
+      kind: 'folder' as NodeKind,
+      label: d.folder.name,
+      id: d.folder.uri.toString(),
+      folder: d.folder,
+      executable: '',
+      children: buildTree(d, grouping)
+    }));
     this._onDidChangeTreeData.fire();
+    this._onDidLoadTests.fire();
   }
 
-  /** Refresh tree (rescan + rebuild). */
+  /** Refresh tree (rescan + rebuild all folders). */
   async refresh(): Promise<void> {
-    if (!this.workspaceFolder) return;
-    await this.setWorkspace(this.workspaceFolder);
+    await this.setWorkspaceFolders(this.discovered.map((d) => d.folder));
+  }
+
+  /** Redraw items without rescanning (e.g. after the watch state of a node changed). */
+  redraw(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** Executable nodes of all workspace folders. */
+  getRoots(): GTestTreeNode[] {
+    return this.folders.flatMap((f) => f.children);
+  }
+
+  /** Top-level nodes: one per workspace folder in multi-root workspaces, else the executables. */
+  getTopLevel(): GTestTreeNode[] {
+    return this.folders.length > 1 ? this.folders : this.getRoots();
   }
 
   getChildren(element?: GTestTreeNode): GTestTreeNode[] {
-    if (!element) {
-      return this.roots;
+    const nodes = element ? element.children : this.getTopLevel();
+    if (!isFilterActive(this.filter)) {
+      return nodes;
+    }
+    return nodes.filter((n) => this.isVisible(n));
+  }
+
+  /** Current filter of the tree. */
+  getFilter(): TreeFilter {
+    return this.filter;
+  }
+
+  /** Filter the tree (EMPTY_FILTER shows everything). */
+  setFilter(filter: TreeFilter): void {
+    this.filter = filter;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** True if the node is shown with the current filter: a matching test, or a node with one below it. */
+  private isVisible(node: GTestTreeNode): boolean {
+    if (node.kind === 'test') {
+      return matchesFilter(node, this.filter);
     }
-    return element.children;
+    return node.children.some((c) => this.isVisible(c));
   }
 
   getTreeItem(element: GTestTreeNode): vscode.TreeItem {
@@ -206,7 +704,30 @@ export class GTestTreeProvider
       }
       return undefined;
     };
-    return visit(this.roots);
+    return visit(this.folders);
+  }
+
+  /** Find the test node for a folder + executable + full name (e.g. to locate a failure in source). */
+  findTestNode(
+    folder: vscode.WorkspaceFolder,
+    executable: string,
+    fullName: string
+  ): GTestTreeNode | undefined {
+    return this.findNodeById(testKey(folder, executable, fullName));
+  }
+
+  /** Test fullNames under a node that the current filter shows (for "Run Visible Tests"). */
+  getVisibleTestFullNamesUnder(node: GTestTreeNode): string[] {
+    const active = isFilterActive(this.filter);
+    const out: string[] = [];
+    const visit = (n: GTestTreeNode) => {
+      if (n.fullName && (!active || matchesFilter(n, this.filter))) {
+        out.push(n.fullName);
+      }
+      n.children.forEach(visit);
+    };
+    visit(node);
+    return out;
   }
 
   /** Get all test fullNames under a node (for run suite/executable). */
@@ -0,0 +1,161 @@
+/**
+ * Filter for the GTest tree: GTest-style wildcard text matched against test, suite and file names,
+ * plus status toggles (failed, not run, disabled). Suites, executables and folders stay visible
+ * while any test under them matches.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GTestTreeNode } from './testTree';
+import { testStore } from './testStore';
+import { isPattern, compilePattern, isDisabledName } from './gtestFilter';
+
+/** Status toggles of the filter (several toggles show tests matching any of them). */
+export type FilterToggle = 'failedOnly' | 'notRun' | 'disabled';
+
+/** Active filter of the GTest tree. */
+export interface TreeFilter {
+  /** Patterns like GTest's (e.g. "Foo*:Bar*:-*Slow*"); a pattern without wildcards matches as a substring. */
+  text: string;
+  failedOnly: boolean;
+  notRun: boolean;
+  disabled: boolean;
+}
+
+export const EMPTY_FILTER: TreeFilter = { text: '', failedOnly: false, notRun: false, disabled: false };
+
+const TOGGLE_LABELS: Record<FilterToggle, string> = {
+  failedOnly: 'Failed only',
+  notRun: 'Not run',
+  disabled: 'Disabled (DISABLED_)'
+};
+
+/** True if the filter hides anything. */
+export function isFilterActive(filter: TreeFilter): boolean {
+  return filter.text.trim() !== '' || filter.failedOnly || filter.notRun || filter.disabled;
+}
+
+/** Short text for the view message, e.g. "Foo* · failed only · not run". */
+export function describeFilter(filter: TreeFilter): string {
+  const parts = filter.text.trim() ? [filter.text.trim()] : [];
+  if (filter.failedOnly) {
+    parts.push('failed only');
+  }
+  if (filter.notRun) {
+    parts.push('not run');
+  }
+  if (filter.disabled) {
+    parts.push('disabled');
+  }
+  return parts.join(' · ');
+}
+
+/** True for tests GTest skips unless --gtest_also_run_disabled_tests is given (DISABLED_ test or suite). */
+export function isDisabledTest(node: GTestTreeNode): boolean {
+  return node.kind === 'test' && !!node.fullName && isDisabledName(node.fullName);
+}
+
+/**
+ * Split "POS1:POS2:-NEG1:NEG2" into lowercase positive and negative patterns (substrings become *text*).
+ * Only a '-' at the start or right after ':' starts the negative patterns, so hyphenated names
+ * such as "string-utils" stay one pattern.
+ */
+export function parsePatterns(text: string): { positive: string[]; negative: string[] } {
+  const toPatterns = (part: string) =>
+    part
+      .split(':')
+      .map((p) => p.trim().toLowerCase())
+      .filter((p) => p !== '')
+      .map((p) => (isPattern(p) ? p : `*${p}*`));
+  const negativeStart = text.match(/(?:^|:)\s*-/);
+  const dash = negativeStart ? (negativeStart.index ?? 0) + negativeStart[0].length - 1 : -1;
+  const positive = toPatterns(dash < 0 ? text : text.slice(0, dash));
+  return {
+    positive: positive.length > 0 ? positive : ['*'],
+    negative: dash < 0 ? [] : toPatterns(text.slice(dash + 1))
+  };
+}
+
+/** Compiled patterns of the last filter text (the same text is matched against every node). */
+let compiledText:
+  | { text: string; positive: Array<(name: string) => boolean>; negative: Array<(name: string) => boolean> }
+  | undefined;
+
+/** Free-text match on the full test name (Suite.Test) and the source file name, case-insensitive. */
+function matchesText(node: GTestTreeNode, text: string): boolean {
+  if (text.trim() === '') {
+    return true;
+  }
+  if (compiledText?.text !== text) {
+    const { positive, negative } = parsePatterns(text);
+    compiledText = { text, positive: positive.map(compilePattern), negative: negative.map(compilePattern) };
+  }
+  const { positive, negative } = compiledText;
+  const names = [node.fullName ?? node.label, node.filePath ? path.basename(node.filePath) : '']
+    .filter((n) => n !== '')
+    .map((n) => n.toLowerCase());
+  const matchesAny = (matchers: Array<(name: string) => boolean>) =>
+    names.some((n) => matchers.some((matches) => matches(n)));
+  return matchesAny(positive) && !matchesAny(negative);
+}
+
+/** True if a test node passes the filter (text and, if any toggle is on, at least one toggle). */
+export function matchesFilter(node: GTestTreeNode, filter: TreeFilter): boolean {
+  if (!matchesText(node, filter.text)) {
+    return false;
+  }
+  if (!filter.failedOnly && !filter.notRun && !filter.disabled) {
+    return true;
+  }
+  const status = node.fullName ? testStore.getStatus(node.folder, node.executable, node.fullName) : 'none';
+  return (
+    (filter.failedOnly && (status === 'failed' || status === 'timedOut')) ||
+    (filter.notRun && status === 'none') ||
+    (filter.disabled && isDisabledTest(node))
+  );
+}
+
+interface ToggleItem extends vscode.QuickPickItem {
+  toggle: FilterToggle;
+}
+
+/**
+ * Ask for a filter: the input is the text pattern, the checkboxes are the status toggles.
+ * @returns The new filter, or undefined if the picker was dismissed
+ */
+export function pickFilter(current: TreeFilter): Promise<TreeFilter | undefined> {
+  return new Promise((resolve) => {
+    const picker = vscode.window.createQuickPick<ToggleItem>();
+    picker.title = 'Filter GTest Tests';
+    picker.placeholder = 'Test, suite or file name (GTest wildcards, e.g. Foo*:Bar*:-*Slow*); Enter to apply';
+    picker.canSelectMany = true;
+    picker.value = current.text;
+    // alwaysShow: the input is the name filter, it must not hide the toggles
+    const items: ToggleItem[] = (Object.keys(TOGGLE_LABELS) as FilterToggle[]).map((toggle) => ({
+      label: TOGGLE_LABELS[toggle],
+      toggle,
+      alwaysShow: true
+    }));
+    picker.items = items;
+    picker.selectedItems = items.filter((i) => current[i.toggle]);
+    let accepted = false;
+    picker.onDidAccept(() => {
+      accepted = true;
+      const selected = new Set(picker.selectedItems.map((i) => i.toggle));
+      resolve({
+        text: picker.value.trim(),
+        failedOnly: selected.has('failedOnly'),
+        notRun: selected.has('notRun'),
+        disabled: selected.has('disabled')
+      });
+      picker.hide();
+    });
+    picker.onDidHide(() => {
+      if (!accepted) {
+        resolve(undefined);
+      }
+      picker.dispose();
+    });
+    picker.show();
+  });
+}
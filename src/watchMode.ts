@@ -0,0 +1,223 @@
+/**
+ * Watch mode: when a C/C++ source of a test executable is saved, rebuild that executable and
+ * rerun the affected tests (the tests defined in the saved file, or the whole executable when a
+ * non-test source changed). Enabled for everything from the view title, or per executable /
+ * suite / file / directory from the tree. Saves are debounced and a new run cancels the one in flight.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getProject, getExecutableForFile } from './cmakeIntegration';
+import { ensureBuilt } from './buildManager';
+import { runTestsWithNames } from './testRunner';
+import { GTestTreeNode, GTestTreeProvider } from './testTree';
+import { getWatchDebounce } from './config';
+import { logInfo, logError } from './log';
+
+/** Files whose save can change a test executable. */
+const WATCHED_EXTENSIONS = new Set(['.c', '.cc', '.cpp', '.cxx', '.h', '.hh', '.hpp', '.hxx', '.ipp']);
+
+/** Context key for the view title toggle (shows Enable or Disable Watch Mode). */
+const CONTEXT_KEY = 'gtest-plugin.watchMode';
+
+let watchAll = false;
+/** Ids of executable and suite nodes watched individually. */
+const watchedIds = new Set<string>();
+
+/** True if the node is watched on its own (not just through the global toggle). */
+export function isWatched(node: GTestTreeNode): boolean {
+  return watchedIds.has(node.id);
+}
+
+/** Tests waiting for the debounce timer of one executable; undefined = the whole executable. */
+interface PendingRun {
+  folder: vscode.WorkspaceFolder;
+  fullNames: Set<string> | undefined;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class WatchMode implements vscode.Disposable {
+  /** Keyed by executable node id (folder + executable). */
+  private pending = new Map<string, PendingRun>();
+  /** Cancels the watch run in flight per executable (keyed like pending). */
+  private inFlight = new Map<string, vscode.CancellationTokenSource>();
+  private subscription: vscode.Disposable;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private treeProvider: GTestTreeProvider
+  ) {
+    this.subscription = vscode.workspace.onDidSaveTextDocument((doc) => {
+      this.onSaved(doc).catch((e) => logError('Watch mode: ' + (e as Error).message));
+    });
+    vscode.commands.executeCommand('setContext', CONTEXT_KEY, watchAll);
+  }
+
+  /** Turn watch mode on or off for all test executables. */
+  setEnabled(enabled: boolean): void {
+    watchAll = enabled;
+    vscode.commands.executeCommand('setContext', CONTEXT_KEY, enabled);
+    logInfo(`Watch mode ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  /** Watch or stop watching one executable or group node. */
+  toggleNode(node: GTestTreeNode): void {
+    if (watchedIds.has(node.id)) {
+      watchedIds.delete(node.id);
+    } else {
+      watchedIds.add(node.id);
+    }
+    logInfo(`Watch mode: ${node.id} ${watchedIds.has(node.id) ? 'watched' : 'no longer watched'}`);
+  }
+
+  /** Find the saved file's executable and the tests to rerun, then schedule the run. */
+  private async onSaved(doc: vscode.TextDocument): Promise<void> {
+    if (!watchAll && watchedIds.size === 0) {
+      return;
+    }
+    if (doc.uri.scheme !== 'file') {
+      return;
+    }
+    if (!WATCHED_EXTENSIONS.has(path.extname(doc.uri.fsPath).toLowerCase())) {
+      return;
+    }
+    const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+    if (!folder) {
+      return;
+    }
+    const project = await getProject(folder);
+    if (!project) {
+      return;
+    }
+    const executable = getExecutableForFile(project, doc.uri.fsPath);
+    if (!executable) {
+      return;
+    }
+    const root = this.findRoot(folder, executable);
+    if (!root) {
+      return;
+    }
+    const fullNames = this.testsToRerun(root, doc.uri.fsPath);
+    if (fullNames === null) {
+      return;
+    }
+    this.schedule(folder, executable, fullNames);
+  }
+
+  /** Executable node of the tree for this workspace folder and executable. */
+  private findRoot(folder: vscode.WorkspaceFolder, executable: string): GTestTreeNode | undefined {
+    return this.treeProvider
+      .getRoots()
+      .find((r) => r.executable === executable && r.folder.uri.toString() === folder.uri.toString());
+  }
+
+  /** Key of an executable in pending and inFlight. */
+  private keyOf(folder: vscode.WorkspaceFolder, executable: string): string {
+    return `${folder.uri.toString()}|${executable}`;
+  }
+
+  /**
+   * Tests of an executable affected by a saved file, limited to what is watched.
+   * @returns Full names, undefined for the whole executable, or null if nothing watched is affected
+   */
+  private testsToRerun(root: GTestTreeNode, filePath: string): string[] | undefined | null {
+    const normalized = filePath.replace(/\\/g, '/');
+    const inFile = (n: GTestTreeNode) => n.filePath?.replace(/\\/g, '/') === normalized;
+    const all = this.treeProvider.getTestFullNamesUnder(root);
+    const groups: GTestTreeNode[] = [];
+    const testsInFile: string[] = [];
+    const visit = (n: GTestTreeNode) => {
+      if (n.kind === 'test') {
+        if (inFile(n)) {
+          testsInFile.push(n.fullName as string);
+        }
+        return;
+      }
+      groups.push(n);
+      n.children.forEach(visit);
+    };
+    root.children.forEach(visit);
+    // A non-test source (or a header) may affect every test in the executable
+    const affected = testsInFile.length > 0 ? testsInFile : all;
+    if (watchAll || watchedIds.has(root.id)) {
+      return affected.length === all.length ? undefined : affected;
+    }
+    // Watched group nodes (suite, file or directory, depending on the tree grouping)
+    const watchedGroups = groups.filter((g) => watchedIds.has(g.id));
+    const watched = new Set(watchedGroups.flatMap((g) => this.treeProvider.getTestFullNamesUnder(g)));
+    const names = affected.filter((fn) => watched.has(fn));
+    return names.length > 0 ? names : null;
+  }
+
+  /** Debounce saves per executable; tests of consecutive saves are merged into one run. */
+  private schedule(
+    folder: vscode.WorkspaceFolder,
+    executable: string,
+    fullNames: string[] | undefined
+  ): void {
+    const key = this.keyOf(folder, executable);
+    this.inFlight.get(key)?.cancel();
+    const prev = this.pending.get(key);
+    if (prev) {
+      clearTimeout(prev.timer);
+    }
+    let merged: Set<string> | undefined;
+    if (fullNames && (!prev || prev.fullNames)) {
+      merged = new Set([...(prev?.fullNames ?? []), ...fullNames]);
+    }
+    const timer = setTimeout(() => {
+      this.pending.delete(key);
+      this.run(folder, executable, merged).catch((e) =>
+        logError('Watch mode run failed: ' + (e as Error).message)
+      );
+    }, getWatchDebounce());
+    this.pending.set(key, { folder, fullNames: merged, timer });
+  }
+
+  /** Rebuild the executable and rerun the tests (cancelled by the next save). */
+  private async run(
+    folder: vscode.WorkspaceFolder,
+    executable: string,
+    fullNames: Set<string> | undefined
+  ): Promise<void> {
+    const key = this.keyOf(folder, executable);
+    this.inFlight.get(key)?.cancel();
+    const source = new vscode.CancellationTokenSource();
+    this.inFlight.set(key, source);
+    try {
+      const root = this.findRoot(folder, executable);
+      const names = fullNames ? Array.from(fullNames) : root ? this.treeProvider.getTestFullNamesUnder(root) : [];
+      if (names.length === 0) {
+        return;
+      }
+      logInfo(`Watch mode: rebuilding ${executable} and rerunning ${names.length} test(s)`);
+      if (!(await ensureBuilt(this.context, folder, [executable], source.token))) {
+        return;
+      }
+      // A newer save may have superseded this run while it was building
+      if (source.token.isCancellationRequested) {
+        return;
+      }
+      await runTestsWithNames(this.context, folder, executable, names, {
+        token: source.token,
+        skipBuild: true
+      });
+    } finally {
+      if (this.inFlight.get(key) === source) {
+        this.inFlight.delete(key);
+      }
+      source.dispose();
+    }
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    for (const p of this.pending.values()) {
+      clearTimeout(p.timer);
+    }
+    this.pending.clear();
+    for (const source of this.inFlight.values()) {
+      source.cancel();
+    }
+  }
+}